@@ -0,0 +1,167 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { type RunResult, summarizeResults } from "./runner.js";
+import type { RuleId, ValidatorConfig, Violation } from "./types.js";
+import { methodPasses } from "./validators/index.js";
+
+/**
+ * Format version of baseline files
+ */
+const BASELINE_VERSION = 1;
+
+/**
+ * Fingerprint of an accepted violation. Lines are not recorded, so entries survive code moving
+ * around them.
+ */
+export interface BaselineEntry {
+    rule: RuleId;
+    /** File of the violation, relative to the project root */
+    file: string;
+    /** Controller and method the violation was reported on. Unset for route diagnostics */
+    controller?: string;
+    method?: string;
+    /** Source line of the violation, trimmed, with whitespace runs collapsed */
+    snippet: string;
+}
+
+export interface Baseline {
+    version: typeof BASELINE_VERSION;
+    violations: BaselineEntry[];
+}
+
+export interface BaselineComparison {
+    /** The run without the violations the baseline accepts, with pass states and counts updated */
+    result: RunResult;
+    /** Violations the baseline accepted */
+    baselined: number;
+    /** Entries no current violation matches anymore */
+    fixed: BaselineEntry[];
+}
+
+/**
+ * Fingerprint every violation and diagnostic of a run
+ */
+export function createBaseline(projectPath: string, result: RunResult): Baseline {
+    const fingerprint = createFingerprinter(projectPath);
+    const violations = [
+        ...result.results.flatMap((r) =>
+            r.violations.map((v) => fingerprint(v, r.filePath, { controller: r.controller, method: r.method })),
+        ),
+        ...result.diagnostics.map((d) => fingerprint(d)),
+    ];
+
+    return { version: BASELINE_VERSION, violations: violations.sort(compareEntries) };
+}
+
+/**
+ * Read a baseline file, or return null when it does not exist
+ */
+export function readBaseline(baselinePath: string): Baseline | null {
+    if (!fs.existsSync(baselinePath)) return null;
+
+    const baseline = JSON.parse(fs.readFileSync(baselinePath, "utf-8")) as Baseline;
+    if (baseline.version !== BASELINE_VERSION || !Array.isArray(baseline.violations)) {
+        throw new Error(`Unsupported baseline file ${baselinePath}. Write it again with --write-baseline.`);
+    }
+
+    return baseline;
+}
+
+export function writeBaseline(baselinePath: string, baseline: Baseline): void {
+    fs.mkdirSync(path.dirname(baselinePath), { recursive: true });
+    fs.writeFileSync(baselinePath, `${JSON.stringify(baseline, null, 2)}\n`);
+}
+
+/**
+ * Drop the violations a baseline accepts from a run. Each entry accepts one matching violation, so
+ * a method gaining a second identical violation still reports it.
+ *
+ * `fixed` lists every entry left unmatched, so it is only meaningful for runs that checked the
+ * whole project.
+ */
+export function applyBaseline(
+    projectPath: string,
+    config: ValidatorConfig,
+    result: RunResult,
+    baseline: Baseline,
+): BaselineComparison {
+    const fingerprint = createFingerprinter(projectPath);
+    const remaining = new Map<string, BaselineEntry[]>();
+    let baselined = 0;
+
+    for (const entry of baseline.violations) {
+        const key = getEntryKey(entry);
+        remaining.set(key, [...(remaining.get(key) ?? []), entry]);
+    }
+
+    const isAccepted = (entry: BaselineEntry) => {
+        const matches = remaining.get(getEntryKey(entry));
+        if (!matches?.length) return false;
+
+        matches.pop();
+        baselined++;
+        return true;
+    };
+
+    const results = result.results.map((r) => {
+        const violations = r.violations.filter(
+            (v) => !isAccepted(fingerprint(v, r.filePath, { controller: r.controller, method: r.method })),
+        );
+
+        return { ...r, violations, passed: methodPasses(violations, config) };
+    });
+    const diagnostics = result.diagnostics.filter((d) => !isAccepted(fingerprint(d)));
+
+    return {
+        result: summarizeResults(results, diagnostics, config),
+        baselined,
+        fixed: [...remaining.values()].flat().sort(compareEntries),
+    };
+}
+
+/**
+ * Remove fixed entries, so violations they covered cannot come back unnoticed
+ */
+export function pruneBaseline(baseline: Baseline, fixed: BaselineEntry[]): Baseline {
+    const pruned = new Set(fixed);
+    return { ...baseline, violations: baseline.violations.filter((entry) => !pruned.has(entry)) };
+}
+
+/**
+ * Fingerprint violations, reading each source file once
+ */
+function createFingerprinter(projectPath: string) {
+    const lines = new Map<string, string[]>();
+
+    return (
+        violation: Violation,
+        fallbackPath = "",
+        handler: Pick<BaselineEntry, "controller" | "method"> = {},
+    ): BaselineEntry => {
+        const filePath = path.resolve(violation.filePath ?? fallbackPath);
+        if (!lines.has(filePath)) {
+            lines.set(filePath, fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8").split("\n") : []);
+        }
+
+        return {
+            rule: violation.rule,
+            file: path.relative(path.resolve(projectPath), filePath).split(path.sep).join("/"),
+            ...handler,
+            snippet: (lines.get(filePath)?.[violation.line - 1] ?? "").trim().replace(/\s+/g, " "),
+        };
+    };
+}
+
+function getEntryKey(entry: BaselineEntry): string {
+    return [entry.rule, entry.file, entry.controller, entry.method, entry.snippet].join("\0");
+}
+
+function compareEntries(a: BaselineEntry, b: BaselineEntry): number {
+    return (
+        a.file.localeCompare(b.file) ||
+        (a.controller ?? "").localeCompare(b.controller ?? "") ||
+        (a.method ?? "").localeCompare(b.method ?? "") ||
+        a.rule.localeCompare(b.rule) ||
+        a.snippet.localeCompare(b.snippet)
+    );
+}
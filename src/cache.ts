@@ -0,0 +1,148 @@
+import { createHash } from "node:crypto";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { fileURLToPath } from "node:url";
+
+/**
+ * Cache directory, relative to the project root
+ */
+export const CACHE_DIRECTORY = "node_modules/.cache/adonis-validator";
+
+/**
+ * On-disk cache of analysis results. Each entry records the content hash of every file it was
+ * derived from and is only reused while all of them are unchanged.
+ */
+export interface AnalysisCache {
+    directory: string;
+    /** Hash of the tool version, the options the results depend on and the project's tsconfig.json and package.json */
+    key: string;
+    /** Content hashes of the files read so far, null for missing files */
+    hashes: Map<string, string | null>;
+    /** Entries reused so far */
+    hits: number;
+    /** Entries looked up but missing or stale */
+    misses: number;
+}
+
+interface CacheEntry<T> {
+    key: string;
+    /** Content hash of every file the data was derived from, by absolute path */
+    files: Record<string, string>;
+    data: T;
+}
+
+/**
+ * Open the cache of a project. `options` are the settings the cached results depend on.
+ */
+export function openCache(projectPath: string, options: Record<string, unknown>): AnalysisCache {
+    const read = (file: string) => {
+        const filePath = path.join(projectPath, file);
+        return fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8") : null;
+    };
+
+    return {
+        directory: path.join(projectPath, CACHE_DIRECTORY),
+        key: hash(
+            JSON.stringify({
+                version: getToolVersion(),
+                options,
+                tsconfig: read("tsconfig.json"),
+                packageJson: read("package.json"),
+            }),
+        ),
+        hashes: new Map(),
+        hits: 0,
+        misses: 0,
+    };
+}
+
+/**
+ * Return the data cached for a file under `kind` with the files it was derived from, or null when
+ * it is missing or any of those files changed
+ */
+export function readCache<T>(
+    cache: AnalysisCache,
+    kind: string,
+    filePath: string,
+): { files: string[]; data: T } | null {
+    const entryPath = getEntryPath(cache, kind, filePath);
+    let entry: CacheEntry<T> | null = null;
+
+    try {
+        entry = JSON.parse(fs.readFileSync(entryPath, "utf-8")) as CacheEntry<T>;
+    } catch {
+        // Missing or unreadable entries are misses
+    }
+
+    const fresh =
+        entry?.key === cache.key &&
+        Object.entries(entry.files).every(([file, contentHash]) => getFileHash(cache, file) === contentHash);
+
+    if (!entry || !fresh) {
+        cache.misses++;
+        return null;
+    }
+
+    cache.hits++;
+    return { files: Object.keys(entry.files), data: entry.data };
+}
+
+/**
+ * Store the data derived from `files` (the file itself first) for a file under `kind`. Failures to
+ * write are ignored, the next run analyzes again.
+ */
+export function writeCache<T>(cache: AnalysisCache, kind: string, filePath: string, files: string[], data: T): void {
+    const hashes: Record<string, string> = {};
+
+    for (const file of [filePath, ...files]) {
+        const contentHash = getFileHash(cache, file);
+        if (contentHash === null) return;
+        hashes[path.resolve(file)] = contentHash;
+    }
+
+    const entry: CacheEntry<T> = { key: cache.key, files: hashes, data };
+
+    try {
+        fs.mkdirSync(cache.directory, { recursive: true });
+        fs.writeFileSync(getEntryPath(cache, kind, filePath), JSON.stringify(entry));
+    } catch {
+        // The cache is an optimization only
+    }
+}
+
+function getEntryPath(cache: AnalysisCache, kind: string, filePath: string): string {
+    return path.join(cache.directory, `${kind}-${hash(path.resolve(filePath)).slice(0, 16)}.json`);
+}
+
+function getFileHash(cache: AnalysisCache, filePath: string): string | null {
+    const absolutePath = path.resolve(filePath);
+
+    if (!cache.hashes.has(absolutePath)) {
+        cache.hashes.set(absolutePath, fs.existsSync(absolutePath) ? hash(fs.readFileSync(absolutePath)) : null);
+    }
+
+    return cache.hashes.get(absolutePath) ?? null;
+}
+
+function hash(content: string | Buffer): string {
+    return createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Version in the package.json closest to this module. Part of the cache key, so upgrading the tool
+ * invalidates the cache
+ */
+export function getToolVersion(): string {
+    let directory = path.dirname(fileURLToPath(import.meta.url));
+
+    while (true) {
+        const packageJsonPath = path.join(directory, "package.json");
+        if (fs.existsSync(packageJsonPath)) {
+            return (JSON.parse(fs.readFileSync(packageJsonPath, "utf-8")) as { version?: string }).version ?? "";
+        }
+
+        const parent = path.dirname(directory);
+        if (parent === directory) return "";
+        directory = parent;
+    }
+}
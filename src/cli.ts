@@ -3,10 +3,33 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import chalk from "chalk";
-import { Command } from "commander";
-import { runValidation } from "./runner.js";
+import { Command, InvalidArgumentError } from "commander";
+import {
+    type BaselineComparison,
+    applyBaseline,
+    createBaseline,
+    pruneBaseline,
+    readBaseline,
+    writeBaseline,
+} from "./baseline.js";
+import { loadPlugins } from "./config.js";
+import { generateClient } from "./generators/client.js";
+import { formatOpenApi, generateOpenApi } from "./generators/openapi.js";
+import { getGitChanges } from "./git.js";
+import { type AnalysisSession, createAnalysisSession, formatTimings } from "./parsers/analysis-session.js";
+import { formatRouteTable, listRoutes } from "./route-list.js";
+import { runValidationInWorkers } from "./runner.js";
 import type { RunResult } from "./runner.js";
+import { createSarifLog, formatSarif } from "./sarif.js";
 import { DEFAULT_CONFIG, type ValidatorConfig } from "./types.js";
+import { type RunDiff, watchValidation } from "./watch.js";
+
+/**
+ * Output formats of the validation results. `json` serializes the `RunResult`
+ */
+const REPORT_FORMATS = ["text", "json", "sarif"] as const;
+
+type ReportFormat = (typeof REPORT_FORMATS)[number];
 
 const program = new Command();
 
@@ -14,36 +37,214 @@ program
     .name("adonis-validator")
     .description("Static analysis tool for AdonisJS controller pattern validation")
     .version("0.1.0")
+    .enablePositionalOptions()
     .option("-c, --config <path>", "Path to config file", "adonis-validator.config.json")
     .option("-p, --project <path>", "Path to project root", ".")
     .option("--routes <path>", "Path to routes file")
     .option("--controllers <path>", "Path to controllers directory")
     .option("--no-fail", "Don't exit with error code on violations")
-    .option("--json", "Output results as JSON")
-    .option("-v, --verbose", "Verbose output")
+    .option("--json", "Output results as JSON (same as --format json)")
+    .option("-f, --format <format>", "text, json or sarif", parseFormat, "text")
+    .option("-o, --output <path>", "Write the JSON or SARIF report to a file and print the results as text")
+    .option("--workers <count>", "Analyze controllers in this many worker threads", parseCount)
+    .option("--no-cache", "Analyze every file instead of reusing results cached by earlier runs")
+    .option("-w, --watch", "Validate again when controllers, their imports or the routes file change")
+    .option("--changed-since <ref>", "Only check routes and controllers changed since the branch forked from <ref>")
+    .option("--staged", "Only check routes and controllers with staged changes")
+    .option("--write-baseline", "Accept the current violations by writing them to the baseline file")
+    .option("--prune-baseline", "Remove fixed violations from the baseline file")
+    .option("--no-baseline", "Report violations accepted by the baseline file too")
+    .option("-v, --verbose", "Verbose output, with a timing breakdown")
     .action(async (options) => {
         const projectPath = path.resolve(options.project);
-        const config = loadConfig(projectPath, options);
+        const config = await loadPlugins(projectPath, loadConfig(projectPath, options));
+        const format: ReportFormat = options.json ? "json" : options.format;
+        // The report goes to stdout, so nothing else can
+        const reportOnly = format !== "text" && !options.output;
+
+        if (options.output && format === "text") {
+            program.error("--output needs --format json or --format sarif");
+        }
 
         if (options.verbose) {
             console.log(chalk.blue("Configuration:"), config);
         }
 
-        console.log(chalk.blue(`\nValidating AdonisJS controllers in ${projectPath}...\n`));
+        if (!reportOnly) {
+            console.log(chalk.blue(`\nValidating AdonisJS controllers in ${projectPath}...\n`));
+        }
 
-        const result = runValidation(projectPath, config);
+        const session = createAnalysisSession(projectPath);
+        const scoped = options.changedSince !== undefined || options.staged;
 
-        if (options.json) {
-            console.log(JSON.stringify(result, null, 2));
-        } else {
+        if (scoped && (options.watch || (options.changedSince !== undefined && options.staged))) {
+            program.error("--changed-since and --staged cannot be combined with each other or with --watch");
+        }
+        if ((options.writeBaseline || options.pruneBaseline) && (scoped || options.watch)) {
+            program.error(
+                "--write-baseline and --prune-baseline need a full run, without --changed-since, --staged or --watch",
+            );
+        }
+
+        const baselinePath = path.resolve(projectPath, config.baselineFile);
+        const baseline = options.baseline && !options.writeBaseline ? readBaseline(baselinePath) : null;
+
+        if (options.watch) {
+            watchValidation(
+                projectPath,
+                config,
+                {
+                    onRun: ({ result: run, diff, changedFiles }) => {
+                        const result = baseline ? applyBaseline(projectPath, config, run, baseline).result : run;
+
+                        if (format !== "text") {
+                            writeReport(format, projectPath, config, result, options.output);
+                        }
+                        if (reportOnly) return;
+
+                        if (diff) {
+                            printDiff(projectPath, changedFiles, diff);
+                            printSummary(result);
+                        } else {
+                            printResults(result, options.verbose);
+                        }
+
+                        if (options.verbose) printTimings(session);
+                        console.log(chalk.gray("\nWatching for changes..."));
+                    },
+                    onError: (error) => {
+                        console.error(chalk.red(`\n${error instanceof Error ? error.message : String(error)}`));
+                    },
+                },
+                session,
+            );
+            return;
+        }
+
+        const changes = scoped
+            ? getGitChanges(projectPath, { since: options.changedSince, staged: options.staged })
+            : undefined;
+        if (changes && !reportOnly) {
+            const scope = options.staged ? "staged changes" : `changes since ${options.changedSince}`;
+            console.log(chalk.blue(`Checking what ${changes.files.length} files with ${scope} affect\n`));
+        }
+
+        const run = await runValidationInWorkers(projectPath, config, { session, changes });
+
+        if (options.writeBaseline) {
+            const written = createBaseline(projectPath, run);
+            writeBaseline(baselinePath, written);
+            console.log(
+                chalk.green(`Baseline with ${written.violations.length} violations written to ${config.baselineFile}`),
+            );
+            return;
+        }
+
+        const comparison = baseline ? applyBaseline(projectPath, config, run, baseline) : null;
+        const result = comparison?.result ?? run;
+
+        if (format !== "text") {
+            writeReport(format, projectPath, config, result, options.output);
+        }
+        if (!reportOnly) {
             printResults(result, options.verbose);
         }
 
-        if (config.failOnError && result.failedMethods > 0) {
+        if (comparison && baseline && options.pruneBaseline && comparison.fixed.length > 0) {
+            writeBaseline(baselinePath, pruneBaseline(baseline, comparison.fixed));
+        }
+        if (comparison && !reportOnly) {
+            printBaseline(config.baselineFile, comparison, { scoped, pruned: options.pruneBaseline });
+        }
+
+        if (options.verbose) {
+            printTimings(session);
+        }
+
+        if (config.failOnError && !result.passed) {
             process.exit(1);
         }
     });
 
+program
+    .command("openapi")
+    .description("Generate an OpenAPI 3.1 document from routes, validators and response types")
+    .option("-c, --config <path>", "Path to config file", "adonis-validator.config.json")
+    .option("-p, --project <path>", "Path to project root", ".")
+    .option("--routes <path>", "Path to routes file")
+    .option("--controllers <path>", "Path to controllers directory")
+    .option("-o, --output <path>", "Write the document to a file instead of stdout")
+    .option("-f, --format <format>", "json or yaml (defaults to the output file extension, then json)")
+    .option("--title <title>", "API title (defaults to the package.json name)")
+    .option("--api-version <version>", "API version (defaults to the package.json version)")
+    .action((options) => {
+        const projectPath = path.resolve(options.project);
+        const config = loadConfig(projectPath, options);
+        const format = options.format ?? (/\.ya?ml$/.test(options.output ?? "") ? "yaml" : "json");
+
+        if (format !== "json" && format !== "yaml") {
+            program.error(`Unknown format "${format}". Use json or yaml.`);
+        }
+
+        const document = generateOpenApi(projectPath, config, { title: options.title, version: options.apiVersion });
+        const output = formatOpenApi(document, format);
+
+        if (options.output) {
+            fs.writeFileSync(options.output, output);
+            console.log(chalk.green(`OpenAPI document written to ${options.output}`));
+        } else {
+            process.stdout.write(output);
+        }
+    });
+
+program
+    .command("client")
+    .description("Generate a typed route manifest and fetch client for frontend code")
+    .option("-c, --config <path>", "Path to config file", "adonis-validator.config.json")
+    .option("-p, --project <path>", "Path to project root", ".")
+    .option("--routes <path>", "Path to routes file")
+    .option("--controllers <path>", "Path to controllers directory")
+    .option("-o, --output <path>", "Write the client to a file instead of stdout")
+    .action((options) => {
+        const projectPath = path.resolve(options.project);
+        const output = generateClient(projectPath, loadConfig(projectPath, options));
+
+        if (options.output) {
+            fs.mkdirSync(path.dirname(path.resolve(options.output)), { recursive: true });
+            fs.writeFileSync(options.output, output);
+            console.log(chalk.green(`Client written to ${options.output}`));
+        } else {
+            process.stdout.write(output);
+        }
+    });
+
+program
+    .command("routes")
+    .description("List routes with their controller locations and validation status, without booting the app")
+    .option("-c, --config <path>", "Path to config file", "adonis-validator.config.json")
+    .option("-p, --project <path>", "Path to project root", ".")
+    .option("--routes <path>", "Path to routes file")
+    .option("--controllers <path>", "Path to controllers directory")
+    .option("--controller <name>", "Only list routes of this controller")
+    .option("--method <method>", "Only list routes with this HTTP method")
+    .option("--path <pattern>", "Only list paths containing the pattern, or matching it when it contains *")
+    .option("--json", "Output routes as JSON")
+    .action(async (options) => {
+        const projectPath = path.resolve(options.project);
+        const config = await loadPlugins(projectPath, loadConfig(projectPath, options));
+        const entries = listRoutes(projectPath, config, {
+            controller: options.controller,
+            method: options.method,
+            path: options.path,
+        });
+
+        if (options.json) {
+            console.log(JSON.stringify(entries, null, 2));
+        } else {
+            process.stdout.write(formatRouteTable(entries));
+        }
+    });
+
 interface CliOptions {
     config: string;
     project: string;
@@ -51,9 +252,26 @@ interface CliOptions {
     controllers?: string;
     fail: boolean;
     json: boolean;
+    workers?: number;
+    cache?: boolean;
     verbose: boolean;
 }
 
+function parseCount(value: string): number {
+    const count = Number.parseInt(value, 10);
+    if (!Number.isInteger(count) || count < 1) {
+        throw new InvalidArgumentError("Expected a positive integer.");
+    }
+    return count;
+}
+
+function parseFormat(value: string): ReportFormat {
+    if (!REPORT_FORMATS.includes(value as ReportFormat)) {
+        throw new InvalidArgumentError(`Expected one of ${REPORT_FORMATS.join(", ")}.`);
+    }
+    return value as ReportFormat;
+}
+
 function loadConfig(projectPath: string, options: CliOptions): ValidatorConfig {
     const configPath = path.join(projectPath, options.config);
     let fileConfig: Partial<ValidatorConfig> = {};
@@ -65,39 +283,162 @@ function loadConfig(projectPath: string, options: CliOptions): ValidatorConfig {
 
     return {
         ...DEFAULT_CONFIG,
+        // The CLI caches unless the config file or --no-cache turns it off
+        cache: true,
         ...fileConfig,
+        ...(options.cache === false && { cache: false }),
         ...(options.routes && { routesFile: options.routes }),
         ...(options.controllers && { controllersDir: options.controllers }),
         ...(options.fail === false && { failOnError: false }),
+        ...(options.workers && { workers: options.workers }),
     };
 }
 
+/**
+ * Write the results as JSON or SARIF to a file, or to stdout without one
+ */
+function writeReport(
+    format: Exclude<ReportFormat, "text">,
+    projectPath: string,
+    config: ValidatorConfig,
+    result: RunResult,
+    output: string | undefined,
+) {
+    const report =
+        format === "sarif"
+            ? formatSarif(createSarifLog(projectPath, config, result))
+            : `${JSON.stringify(result, null, 2)}\n`;
+
+    if (output) {
+        fs.mkdirSync(path.dirname(path.resolve(output)), { recursive: true });
+        fs.writeFileSync(output, report);
+    } else {
+        process.stdout.write(report);
+    }
+}
+
 function printResults(result: RunResult, verbose: boolean) {
-    const { totalMethods, passedMethods, failedMethods, violations } = result;
+    const { results, diagnostics } = result;
+    const diagnosticErrors = diagnostics.filter((d) => d.severity === "error").length;
 
-    // Print violations
-    for (const v of violations) {
-        console.log(chalk.red(`\n❌ ${v.controller}.${v.method}`));
+    // Print violations, including warnings on methods that still pass
+    for (const v of results.filter((r) => r.violations.length > 0)) {
+        const header = `${v.passed ? "⚠️ " : "❌"} ${v.controller}.${v.method}`;
+        console.log(v.passed ? chalk.yellow(`\n${header}`) : chalk.red(`\n${header}`));
         console.log(chalk.gray(`   ${v.filePath}:${v.line}`));
 
         for (const violation of v.violations) {
             const icon = violation.severity === "error" ? "🔴" : "🟡";
             console.log(`   ${icon} ${violation.message}`);
             if (verbose) {
-                console.log(chalk.gray(`      Line ${violation.line}: ${violation.rule}`));
+                const location = violation.filePath
+                    ? `${violation.filePath}:${violation.line}`
+                    : `Line ${violation.line}`;
+                console.log(chalk.gray(`      ${location}: ${violation.rule}`));
             }
         }
     }
 
-    // Print summary
+    // Print broken routes and unrouted methods
+    if (diagnostics.length > 0) {
+        const header = `${diagnosticErrors > 0 ? "❌" : "⚠️ "} Routes and controllers`;
+        console.log(diagnosticErrors > 0 ? chalk.red(`\n${header}`) : chalk.yellow(`\n${header}`));
+
+        for (const diagnostic of diagnostics) {
+            const icon = diagnostic.severity === "error" ? "🔴" : "🟡";
+            console.log(`   ${icon} ${diagnostic.message}`);
+            console.log(chalk.gray(`      ${diagnostic.filePath}:${diagnostic.line}: ${diagnostic.rule}`));
+        }
+    }
+
+    printSummary(result);
+}
+
+function printSummary(result: RunResult) {
+    const { totalMethods, passedMethods, failedMethods, warningCount, diagnostics } = result;
+    const diagnosticErrors = diagnostics.filter((d) => d.severity === "error").length;
+
     console.log(`\n${"─".repeat(60)}`);
 
     if (failedMethods === 0) {
-        console.log(chalk.green(`\n✅ All ${totalMethods} controller methods pass validation!\n`));
+        console.log(
+            result.passed
+                ? chalk.green(`\n✅ All ${totalMethods} controller methods pass validation!\n`)
+                : chalk.red(`\n❌ All ${totalMethods} controller methods pass, but route and controller checks fail\n`),
+        );
+        if (diagnosticErrors > 0) {
+            console.log(chalk.red(`   🔴 Route errors: ${diagnosticErrors}\n`));
+        }
+        if (warningCount > 0) {
+            console.log(chalk.yellow(`   🟡 Warnings: ${warningCount}\n`));
+        }
     } else {
         console.log(chalk.red(`\n❌ ${failedMethods} of ${totalMethods} methods have violations\n`));
         console.log(chalk.green(`   ✅ Passed: ${passedMethods}`));
         console.log(chalk.red(`   ❌ Failed: ${failedMethods}`));
+        if (diagnosticErrors > 0) {
+            console.log(chalk.red(`   🔴 Route errors: ${diagnosticErrors}`));
+        }
+        if (warningCount > 0) {
+            console.log(chalk.yellow(`   🟡 Warnings: ${warningCount}`));
+        }
+    }
+}
+
+/**
+ * Print what changed since the previous watch run
+ */
+function printDiff(projectPath: string, changedFiles: string[], diff: RunDiff) {
+    const files = changedFiles.map((file) => path.relative(projectPath, file)).join(", ");
+    console.log(chalk.blue(`\n🔄 Changed: ${files}`));
+
+    if (diff.added.length === 0 && diff.fixed.length === 0) {
+        console.log(chalk.gray("   No new or fixed violations"));
+    }
+
+    for (const violation of diff.added) {
+        const icon = violation.severity === "error" ? "🔴" : "🟡";
+        const location = `${path.relative(projectPath, violation.filePath)}:${violation.line}`;
+        console.log(`   ${icon} ${violation.handler ? `${violation.handler}: ` : ""}${violation.message}`);
+        console.log(chalk.gray(`      ${location}: ${violation.rule}`));
+    }
+
+    for (const violation of diff.fixed) {
+        const handler = violation.handler ? `${violation.handler}: ` : "";
+        console.log(chalk.green(`   ✅ Fixed ${handler}${violation.message}`));
+    }
+}
+
+/**
+ * Print how many violations the baseline accepted and, after a full run, which of its entries are fixed
+ */
+function printBaseline(
+    baselineFile: string,
+    comparison: BaselineComparison,
+    options: { scoped: boolean; pruned: boolean },
+) {
+    if (comparison.baselined > 0) {
+        console.log(chalk.gray(`   🗂️  Accepted by ${baselineFile}: ${comparison.baselined}`));
+    }
+    if (options.scoped || comparison.fixed.length === 0) return;
+
+    console.log(chalk.green(`\n✅ Fixed since the baseline: ${comparison.fixed.length}`));
+    for (const entry of comparison.fixed) {
+        const handler = entry.controller ? `${entry.controller}.${entry.method}: ` : "";
+        console.log(chalk.gray(`   ${handler}${entry.rule} in ${entry.file}: ${entry.snippet}`));
+    }
+    console.log(
+        options.pruned
+            ? chalk.green(`   Removed from ${baselineFile}`)
+            : chalk.gray(`   Run with --prune-baseline to remove them from ${baselineFile}`),
+    );
+}
+
+function printTimings(session: AnalysisSession) {
+    console.log(chalk.blue("\nTimings:"));
+    for (const line of formatTimings(session.timings)) console.log(chalk.gray(`   ${line}`));
+    if (session.cache) {
+        console.log(chalk.gray(`   cache: ${session.cache.hits} reused, ${session.cache.misses} analyzed`));
     }
 }
 
@@ -1,9 +1,22 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
-import { BaseCommand } from "@adonisjs/core/ace";
+import { BaseCommand, flags } from "@adonisjs/core/ace";
 import type { CommandOptions } from "@adonisjs/core/types/ace";
-import { type RunResult, runValidation } from "../runner.js";
+import {
+    type BaselineComparison,
+    applyBaseline,
+    createBaseline,
+    pruneBaseline,
+    readBaseline,
+    writeBaseline,
+} from "../baseline.js";
+import { loadPlugins } from "../config.js";
+import { getGitChanges } from "../git.js";
+import { type AnalysisSession, createAnalysisSession, formatTimings } from "../parsers/analysis-session.js";
+import { type RunResult, runValidationInWorkers } from "../runner.js";
+import { createSarifLog, formatSarif } from "../sarif.js";
 import { DEFAULT_CONFIG, type ValidatorConfig } from "../types.js";
+import { type RunDiff, watchValidation } from "../watch.js";
 
 export default class ValidateControllers extends BaseCommand {
     static commandName = "validate:controllers";
@@ -18,58 +31,233 @@ export default class ValidateControllers extends BaseCommand {
     /**
      * Path to config file
      */
+    @flags.string({ flagName: "config", description: "Path to config file" })
     declare configPath?: string;
 
     /**
      * Verbose output
      */
+    @flags.boolean({ description: "Verbose output, with a timing breakdown" })
     declare verbose: boolean;
 
     /**
      * JSON output
      */
+    @flags.boolean({ description: "Output results as JSON (same as --format=json)" })
     declare json: boolean;
 
     /**
-     * Don't fail on violations
+     * Output format: text, json or sarif
      */
-    declare noFail: boolean;
+    @flags.string({ description: "text, json or sarif", default: "text" })
+    declare format: string;
+
+    /**
+     * File to write the JSON or SARIF report to
+     */
+    @flags.string({ description: "Write the JSON or SARIF report to a file and print the results as text" })
+    declare output?: string;
+
+    /**
+     * Fail on violations, turned off by --no-fail
+     */
+    @flags.boolean({
+        description: "Exit with an error code on violations",
+        default: true,
+        showNegatedVariantInHelp: true,
+    })
+    declare fail: boolean;
+
+    /**
+     * Reuse results cached by earlier runs, turned off by --no-cache
+     */
+    @flags.boolean({
+        description: "Reuse results cached by earlier runs",
+        default: true,
+        showNegatedVariantInHelp: true,
+    })
+    declare cache: boolean;
+
+    /**
+     * Worker threads analyzing controllers
+     */
+    @flags.number({ description: "Analyze controllers in this many worker threads" })
+    declare workers?: number;
+
+    /**
+     * Validate again on changes instead of exiting
+     */
+    @flags.boolean({ description: "Validate again when controllers, their imports or the routes file change" })
+    declare watch: boolean;
+
+    /**
+     * Only check what changed since the branch forked from this ref
+     */
+    @flags.string({ description: "Only check routes and controllers changed since the branch forked from this ref" })
+    declare changedSince?: string;
+
+    /**
+     * Only check what has staged changes
+     */
+    @flags.boolean({ description: "Only check routes and controllers with staged changes" })
+    declare staged: boolean;
+
+    /**
+     * Accept the current violations by writing them to the baseline file
+     */
+    @flags.boolean({ description: "Accept the current violations by writing them to the baseline file" })
+    declare writeBaseline: boolean;
+
+    /**
+     * Remove fixed violations from the baseline file
+     */
+    @flags.boolean({ description: "Remove fixed violations from the baseline file" })
+    declare pruneBaseline: boolean;
+
+    /**
+     * Hide violations accepted by the baseline file, turned off by --no-baseline
+     */
+    @flags.boolean({
+        description: "Hide violations accepted by the baseline file",
+        default: true,
+        showNegatedVariantInHelp: true,
+    })
+    declare baseline: boolean;
+
+    /**
+     * Keep the process alive in watch mode
+     */
+    override get staysAlive() {
+        return this.watch || super.staysAlive;
+    }
 
     /**
      * Prepare command execution
      */
     async prepare() {
-        this.configPath = this.parsed.flags.config as string | undefined;
-        this.verbose = this.parsed.flags.verbose as boolean;
-        this.json = this.parsed.flags.json as boolean;
-        this.noFail = this.parsed.flags["no-fail"] as boolean;
+        if (this.json) this.format = "json";
     }
 
     /**
      * Execute the validation command
      */
     async run() {
-        const projectPath = this.app.appRoot.toString();
+        const projectPath = this.app.makePath();
         const config = this.loadConfig(projectPath);
 
+        const scoped = this.changedSince !== undefined || this.staged;
+        // The report goes to stdout, so nothing else can
+        const reportOnly = this.format !== "text" && !this.output;
+
+        if (!["text", "json", "sarif"].includes(this.format)) {
+            this.logger.error(`Unknown format "${this.format}". Use text, json or sarif.`);
+            this.exitCode = 1;
+            return;
+        }
+        if (this.output && this.format === "text") {
+            this.logger.error("--output needs --format=json or --format=sarif");
+            this.exitCode = 1;
+            return;
+        }
+
+        if (scoped && (this.watch || (this.changedSince && this.staged))) {
+            this.logger.error("--changed-since and --staged cannot be combined with each other or with --watch");
+            this.exitCode = 1;
+            return;
+        }
+        if ((this.writeBaseline || this.pruneBaseline) && (scoped || this.watch)) {
+            this.logger.error(
+                "--write-baseline and --prune-baseline need a full run, without --changed-since, --staged or --watch",
+            );
+            this.exitCode = 1;
+            return;
+        }
+
         if (this.verbose) {
             this.logger.info("Configuration:");
             console.log(config);
         }
 
-        this.logger.info(`Validating AdonisJS controllers in ${projectPath}...`);
-        console.log("");
+        if (!reportOnly) {
+            this.logger.info(`Validating AdonisJS controllers in ${projectPath}...`);
+            console.log("");
+        }
 
         try {
-            const result = runValidation(projectPath, config);
+            const session = createAnalysisSession(projectPath);
+            const validatorConfig = await loadPlugins(projectPath, config);
+            const baselinePath = path.resolve(projectPath, config.baselineFile);
+            const baseline = !this.baseline || this.writeBaseline ? null : readBaseline(baselinePath);
 
-            if (this.json) {
-                console.log(JSON.stringify(result, null, 2));
-            } else {
+            if (this.watch) {
+                watchValidation(
+                    projectPath,
+                    validatorConfig,
+                    {
+                        onRun: ({ result: run, diff, changedFiles }) => {
+                            const result = baseline ? applyBaseline(projectPath, config, run, baseline).result : run;
+
+                            if (this.format !== "text") this.writeReport(projectPath, validatorConfig, result);
+                            if (reportOnly) return;
+
+                            if (diff) {
+                                this.printDiff(projectPath, changedFiles, diff);
+                                this.printSummary(result);
+                            } else {
+                                this.printResults(result);
+                            }
+
+                            if (this.verbose) this.printTimings(session);
+                            this.logger.info("Watching for changes...");
+                        },
+                        onError: (error) => {
+                            this.logger.error(error instanceof Error ? error.message : String(error));
+                        },
+                    },
+                    session,
+                );
+                return;
+            }
+
+            const changes = scoped
+                ? getGitChanges(projectPath, { since: this.changedSince, staged: this.staged })
+                : undefined;
+            const run = await runValidationInWorkers(projectPath, validatorConfig, {
+                session,
+                changes,
+            });
+
+            if (this.writeBaseline) {
+                const written = createBaseline(projectPath, run);
+                writeBaseline(baselinePath, written);
+                this.logger.success(
+                    `Baseline with ${written.violations.length} violations written to ${config.baselineFile}`,
+                );
+                return;
+            }
+
+            const comparison = baseline ? applyBaseline(projectPath, config, run, baseline) : null;
+            const result = comparison?.result ?? run;
+
+            if (this.format !== "text") {
+                this.writeReport(projectPath, validatorConfig, result);
+            }
+            if (!reportOnly) {
                 this.printResults(result);
             }
 
-            if (config.failOnError && !this.noFail && result.failedMethods > 0) {
+            if (comparison && baseline && this.pruneBaseline && comparison.fixed.length > 0) {
+                writeBaseline(baselinePath, pruneBaseline(baseline, comparison.fixed));
+            }
+            if (comparison && !reportOnly) {
+                this.printBaseline(config.baselineFile, comparison, scoped);
+            }
+
+            if (this.verbose) {
+                this.printTimings(session);
+            }
+
+            if (config.failOnError && this.fail && !result.passed) {
                 this.exitCode = 1;
             }
         } catch (error) {
@@ -96,42 +284,169 @@ export default class ValidateControllers extends BaseCommand {
 
         return {
             ...DEFAULT_CONFIG,
+            cache: true,
             ...fileConfig,
+            ...(!this.cache && { cache: false }),
+            ...(this.workers && { workers: this.workers }),
         };
     }
 
+    /**
+     * Write the results as JSON or SARIF to the output file, or to stdout without one
+     */
+    private writeReport(projectPath: string, config: ValidatorConfig, result: RunResult) {
+        const report =
+            this.format === "sarif"
+                ? formatSarif(createSarifLog(projectPath, config, result))
+                : `${JSON.stringify(result, null, 2)}\n`;
+
+        if (this.output) {
+            const outputPath = path.resolve(projectPath, this.output);
+            fs.mkdirSync(path.dirname(outputPath), { recursive: true });
+            fs.writeFileSync(outputPath, report);
+        } else {
+            process.stdout.write(report);
+        }
+    }
+
     /**
      * Print formatted results
      */
     private printResults(result: RunResult) {
-        const { totalMethods, passedMethods, failedMethods, violations } = result;
+        const { results, diagnostics } = result;
+        const diagnosticErrors = diagnostics.filter((d) => d.severity === "error").length;
 
-        // Print violations
-        for (const v of violations) {
-            this.logger.error(`${v.controller}.${v.method}`);
+        // Print violations, including warnings on methods that still pass
+        for (const v of results.filter((r) => r.violations.length > 0)) {
+            if (v.passed) {
+                this.logger.warning(`${v.controller}.${v.method}`);
+            } else {
+                this.logger.error(`${v.controller}.${v.method}`);
+            }
             console.log(this.colors.gray(`   ${v.filePath}:${v.line}`));
 
             for (const violation of v.violations) {
                 const icon = violation.severity === "error" ? "🔴" : "🟡";
                 console.log(`   ${icon} ${violation.message}`);
                 if (this.verbose) {
-                    console.log(this.colors.gray(`      Line ${violation.line}: ${violation.rule}`));
+                    const location = violation.filePath
+                        ? `${violation.filePath}:${violation.line}`
+                        : `Line ${violation.line}`;
+                    console.log(this.colors.gray(`      ${location}: ${violation.rule}`));
                 }
             }
             console.log("");
         }
 
-        // Print summary
+        // Print broken routes and unrouted methods
+        if (diagnostics.length > 0) {
+            if (diagnosticErrors > 0) {
+                this.logger.error("Routes and controllers");
+            } else {
+                this.logger.warning("Routes and controllers");
+            }
+
+            for (const diagnostic of diagnostics) {
+                const icon = diagnostic.severity === "error" ? "🔴" : "🟡";
+                console.log(`   ${icon} ${diagnostic.message}`);
+                console.log(this.colors.gray(`      ${diagnostic.filePath}:${diagnostic.line}: ${diagnostic.rule}`));
+            }
+            console.log("");
+        }
+
+        this.printSummary(result);
+    }
+
+    /**
+     * Print method counts
+     */
+    private printSummary(result: RunResult) {
+        const { totalMethods, passedMethods, failedMethods, warningCount, diagnostics } = result;
+        const diagnosticErrors = diagnostics.filter((d) => d.severity === "error").length;
+
         console.log("─".repeat(60));
         console.log("");
 
         if (failedMethods === 0) {
-            this.logger.success(`All ${totalMethods} controller methods pass validation!`);
+            if (result.passed) {
+                this.logger.success(`All ${totalMethods} controller methods pass validation!`);
+            } else {
+                this.logger.error(`All ${totalMethods} controller methods pass, but route and controller checks fail`);
+            }
+            if (diagnosticErrors > 0) {
+                console.log(this.colors.red(`   🔴 Route errors: ${diagnosticErrors}`));
+            }
+            if (warningCount > 0) {
+                console.log(this.colors.yellow(`   🟡 Warnings: ${warningCount}`));
+            }
         } else {
             this.logger.error(`${failedMethods} of ${totalMethods} methods have violations`);
             console.log(this.colors.green(`   ✅ Passed: ${passedMethods}`));
             console.log(this.colors.red(`   ❌ Failed: ${failedMethods}`));
+            if (diagnosticErrors > 0) {
+                console.log(this.colors.red(`   🔴 Route errors: ${diagnosticErrors}`));
+            }
+            if (warningCount > 0) {
+                console.log(this.colors.yellow(`   🟡 Warnings: ${warningCount}`));
+            }
         }
         console.log("");
     }
+
+    /**
+     * Print what changed since the previous watch run
+     */
+    private printDiff(projectPath: string, changedFiles: string[], diff: RunDiff) {
+        this.logger.info(`Changed: ${changedFiles.map((file) => path.relative(projectPath, file)).join(", ")}`);
+
+        if (diff.added.length === 0 && diff.fixed.length === 0) {
+            console.log(this.colors.gray("   No new or fixed violations"));
+        }
+
+        for (const violation of diff.added) {
+            const icon = violation.severity === "error" ? "🔴" : "🟡";
+            const location = `${path.relative(projectPath, violation.filePath)}:${violation.line}`;
+            console.log(`   ${icon} ${violation.handler ? `${violation.handler}: ` : ""}${violation.message}`);
+            console.log(this.colors.gray(`      ${location}: ${violation.rule}`));
+        }
+
+        for (const violation of diff.fixed) {
+            const handler = violation.handler ? `${violation.handler}: ` : "";
+            console.log(this.colors.green(`   ✅ Fixed ${handler}${violation.message}`));
+        }
+        console.log("");
+    }
+
+    /**
+     * Print how many violations the baseline accepted and, after a full run, which of its entries are fixed
+     */
+    private printBaseline(baselineFile: string, comparison: BaselineComparison, scoped: boolean) {
+        if (comparison.baselined > 0) {
+            console.log(this.colors.gray(`   🗂️  Accepted by ${baselineFile}: ${comparison.baselined}`));
+        }
+        if (scoped || comparison.fixed.length === 0) return;
+
+        this.logger.success(`Fixed since the baseline: ${comparison.fixed.length}`);
+        for (const entry of comparison.fixed) {
+            const handler = entry.controller ? `${entry.controller}.${entry.method}: ` : "";
+            console.log(this.colors.gray(`   ${handler}${entry.rule} in ${entry.file}: ${entry.snippet}`));
+        }
+        console.log(
+            this.pruneBaseline
+                ? this.colors.green(`   Removed from ${baselineFile}`)
+                : this.colors.gray(`   Run with --prune-baseline to remove them from ${baselineFile}`),
+        );
+        console.log("");
+    }
+
+    /**
+     * Print the duration of each analysis phase
+     */
+    private printTimings(session: AnalysisSession) {
+        this.logger.info("Timings:");
+        for (const line of formatTimings(session.timings)) console.log(this.colors.gray(`   ${line}`));
+        if (session.cache) {
+            console.log(this.colors.gray(`   cache: ${session.cache.hits} reused, ${session.cache.misses} analyzed`));
+        }
+    }
 }
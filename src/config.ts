@@ -1,6 +1,8 @@
 import * as fs from "node:fs";
+import { createRequire } from "node:module";
 import * as path from "node:path";
-import { DEFAULT_CONFIG, type ValidatorConfig } from "./types.js";
+import { pathToFileURL } from "node:url";
+import { DEFAULT_CONFIG, type ValidatorConfig, type ValidatorPlugin } from "./types.js";
 
 export function loadConfigFile(configPath: string): ValidatorConfig {
     if (!fs.existsSync(configPath)) {
@@ -35,3 +37,30 @@ export function createDefaultConfig(projectPath: string): void {
     fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
     console.log(`Created ${configPath}`);
 }
+
+/**
+ * Import every plugin given as a module specifier, resolving it from the project root
+ */
+export async function loadPlugins(projectPath: string, config: ValidatorConfig): Promise<ValidatorConfig> {
+    const require = createRequire(path.join(path.resolve(projectPath), "package.json"));
+    const plugins: ValidatorPlugin[] = [];
+
+    for (const plugin of config.plugins) {
+        if (typeof plugin !== "string") {
+            plugins.push(plugin);
+            continue;
+        }
+
+        const modulePath = require.resolve(plugin);
+        const module = await import(pathToFileURL(modulePath).href);
+        const loaded = module.default as ValidatorPlugin | undefined;
+
+        if (!loaded || !Array.isArray(loaded.rules)) {
+            throw new Error(`Plugin "${plugin}" does not default-export a ValidatorPlugin`);
+        }
+
+        plugins.push({ ...loaded, name: loaded.name || plugin });
+    }
+
+    return { ...config, plugins };
+}
@@ -0,0 +1,220 @@
+import type { JsonSchema, RouteDefinition, ValidatorConfig } from "../types.js";
+import { analyzeRoutes, getValidatorInput, renameRefs } from "./route-analyses.js";
+import { formatPropertyName, schemaToTypeScript } from "./typescript.js";
+
+/**
+ * Types declared by the client module, and globals it relies on, which component types must not shadow
+ */
+const RESERVED_TYPE_NAMES = [
+    "ApiRoutes",
+    "ApiError",
+    "ClientOptions",
+    "RouteName",
+    "RequestArgs",
+    "RequestParameters",
+    "Array",
+    "Blob",
+    "BodyInit",
+    "Error",
+    "FormData",
+    "Pick",
+    "Promise",
+    "Record",
+    "URL",
+];
+
+/**
+ * Request function and helpers appended to every generated client. Depends only on `fetch`.
+ */
+const CLIENT_RUNTIME = `export type RouteName = keyof ApiRoutes;
+
+export type RequestArgs<K extends RouteName> = (ApiRoutes[K]["params"] extends Record<string, never>
+    ? { params?: undefined }
+    : { params: ApiRoutes[K]["params"] }) &
+    (ApiRoutes[K]["input"] extends undefined ? { input?: undefined } : { input: ApiRoutes[K]["input"] });
+
+type RequestParameters<K extends RouteName> = RequestArgs<K> extends { params?: undefined; input?: undefined }
+    ? [args?: RequestArgs<K>]
+    : [args: RequestArgs<K>];
+
+export interface ClientOptions {
+    /** Base URL of the API, e.g. "https://api.example.com/v1" */
+    baseUrl: string;
+    /** Headers sent with every request */
+    headers?: Record<string, string>;
+    /** Fetch implementation. Defaults to the global fetch */
+    fetch?: typeof fetch;
+}
+
+export class ApiError extends Error {
+    constructor(
+        readonly status: number,
+        readonly body: unknown,
+    ) {
+        super(\`Request failed with status \${status}\`);
+    }
+}
+
+/**
+ * Create a typed request function: \`await api("users.show", { params: { id: 1 } })\`
+ */
+export function createClient(options: ClientOptions) {
+    const fetcher = options.fetch ?? fetch;
+
+    return async function request<K extends RouteName>(
+        name: K,
+        ...[args]: RequestParameters<K>
+    ): Promise<ApiRoutes[K]["output"]> {
+        const route = routes[name];
+        const method = route.method.toUpperCase();
+        const { params = {}, input } = (args ?? {}) as { params?: Record<string, unknown>; input?: unknown };
+        const path = route.path.replace(/:([a-zA-Z_]\\w*)\\??/g, (_, key: string) =>
+            encodeURIComponent(String(params[key] ?? "")),
+        );
+        const url = new URL(path.replace(/^\\//, ""), options.baseUrl.replace(/\\/?$/, "/"));
+        const headers: Record<string, string> = { accept: "application/json", ...options.headers };
+        const entries = Object.entries((input ?? {}) as Record<string, unknown>).flatMap(([key, value]) =>
+            (Array.isArray(value) ? value : [value]).filter((v) => v !== undefined).map((v) => [key, v] as const),
+        );
+        let body: BodyInit | undefined;
+
+        if (input !== undefined && (method === "GET" || method === "DELETE")) {
+            for (const [key, value] of entries) url.searchParams.append(key, String(value));
+        } else if (entries.some(([, value]) => value instanceof Blob)) {
+            const form = new FormData();
+            for (const [key, value] of entries) form.append(key, value instanceof Blob ? value : String(value));
+            body = form;
+        } else if (input !== undefined) {
+            body = JSON.stringify(input);
+            headers["content-type"] = "application/json";
+        }
+
+        const response = await fetcher(url, { method, headers, body });
+        const text = await response.text();
+        const data = text ? JSON.parse(text) : undefined;
+
+        if (!response.ok) throw new ApiError(response.status, data);
+        return data;
+    };
+}
+`;
+
+/**
+ * Generate a TypeScript module describing every route (method, path, params, validated input and
+ * the body `successResponse<T>()` resolves to) with a small typed fetch client, for use in frontend
+ * code.
+ *
+ * Routes are keyed by their name, or `resource.handler` (e.g. "users.show") when unnamed. Routes
+ * registered with `router.any()` are skipped. Component types named like a type of the client itself
+ * (e.g. `ApiError`) get a numeric suffix.
+ */
+export function generateClient(projectPath: string, config: ValidatorConfig): string {
+    const components: Record<string, string> = {};
+    const entries: { key: string; route: RouteDefinition; params: string; input: string; output: string }[] = [];
+    const keys = new Set<string>();
+    const analyzed = analyzeRoutes(projectPath, config).filter(({ route }) => route.method !== "any");
+    const renames = getTypeRenames(analyzed.flatMap(({ analysis }) => Object.keys(analysis?.schemas ?? {})));
+
+    for (const { route, analysis } of analyzed.map((a) => renameRefs(a, renames))) {
+        for (const [name, schema] of Object.entries(analysis?.schemas ?? {})) {
+            components[renames.get(name) ?? name] = schemaToTypeScript(schema);
+        }
+
+        const { params, fields, required } = getValidatorInput(analysis);
+        const outputs = [
+            ...new Set(
+                (analysis?.returnStatements ?? []).flatMap((ret) =>
+                    ret.responseSchema ? [schemaToTypeScript(ret.responseSchema, 8)] : [],
+                ),
+            ),
+        ];
+
+        entries.push({
+            key: createRouteKey(route, keys),
+            route,
+            params: createParamsType(route, params?.properties ?? {}),
+            input:
+                Object.keys(fields).length > 0
+                    ? schemaToTypeScript({ type: "object", properties: fields, required }, 8)
+                    : "undefined",
+            output: outputs.length > 0 ? outputs.join(" | ") : "unknown",
+        });
+    }
+
+    const sections = [
+        "/**\n * Typed routes and fetch client.\n *\n * Generated by adonis-validator. Do not edit by hand.\n */",
+        ...Object.entries(components).map(([name, type]) => `export type ${name} = ${type};`),
+        [
+            "export interface ApiRoutes {",
+            ...entries.map((entry) =>
+                [
+                    `    ${JSON.stringify(entry.key)}: {`,
+                    `        method: ${JSON.stringify(entry.route.method)};`,
+                    `        path: ${JSON.stringify(entry.route.path)};`,
+                    `        params: ${entry.params};`,
+                    `        input: ${entry.input};`,
+                    `        output: ${entry.output};`,
+                    "    };",
+                ].join("\n"),
+            ),
+            "}",
+        ].join("\n"),
+        [
+            'export const routes: { [K in keyof ApiRoutes]: Pick<ApiRoutes[K], "method" | "path"> & { params: readonly string[] } } = {',
+            ...entries.map(
+                ({ key, route }) =>
+                    `    ${JSON.stringify(key)}: { method: ${JSON.stringify(route.method)}, path: ${JSON.stringify(route.path)}, params: [${route.pathParams.map((p) => JSON.stringify(p)).join(", ")}] },`,
+            ),
+            "};",
+        ].join("\n"),
+        CLIENT_RUNTIME,
+    ];
+
+    return `${sections.join("\n\n").trimEnd()}\n`;
+}
+
+/**
+ * New names of the component types that would clash with a reserved name
+ */
+function getTypeRenames(names: string[]): Map<string, string> {
+    const taken = new Set([...names, ...RESERVED_TYPE_NAMES]);
+    const renames = new Map<string, string>();
+
+    for (const name of new Set(names)) {
+        if (!RESERVED_TYPE_NAMES.includes(name)) continue;
+
+        let candidate = `${name}2`;
+        for (let n = 3; taken.has(candidate); n++) candidate = `${name}${n}`;
+        taken.add(candidate);
+        renames.set(name, candidate);
+    }
+
+    return renames;
+}
+
+/**
+ * Path params typed by the validator's `params` schema, or accepting any string or number
+ */
+function createParamsType(route: RouteDefinition, schemas: Record<string, JsonSchema>): string {
+    if (route.pathParams.length === 0) return "Record<string, never>";
+
+    const members = route.pathParams.map(
+        (name) =>
+            `${formatPropertyName(name)}: ${schemas[name] ? schemaToTypeScript(schemas[name], 8) : "string | number"}`,
+    );
+    return `{ ${members.join("; ")} }`;
+}
+
+/**
+ * Route name, or `resource.handler`, made unique with the HTTP method and then a counter
+ */
+function createRouteKey(route: RouteDefinition, keys: Set<string>): string {
+    const resource = route.controller.replace(/Controller$/, "");
+    const base = route.name ?? `${resource.charAt(0).toLowerCase()}${resource.slice(1)}.${route.handler}`;
+
+    let key = keys.has(base) ? `${base}.${route.method}` : base;
+    for (let n = 2; keys.has(key); n++) key = `${base}.${route.method}${n}`;
+
+    keys.add(key);
+    return key;
+}
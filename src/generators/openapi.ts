@@ -0,0 +1,216 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { HttpMethod, JsonSchema, MethodAnalysis, RouteDefinition, ValidatorConfig } from "../types.js";
+import { analyzeRoutes, getValidatorInput } from "./route-analyses.js";
+import { toYaml } from "./yaml.js";
+
+/**
+ * Methods whose validated data travels in the query string rather than a request body
+ */
+const QUERY_METHODS: HttpMethod[] = ["get", "delete"];
+
+export interface OpenApiOptions {
+    /** API title. Defaults to the `name` in the project's package.json */
+    title?: string;
+    /** API version. Defaults to the `version` in the project's package.json */
+    version?: string;
+}
+
+export interface OpenApiParameter {
+    name: string;
+    in: "path" | "query";
+    required: boolean;
+    schema: JsonSchema;
+}
+
+export interface OpenApiMediaType {
+    schema: JsonSchema;
+}
+
+export interface OpenApiResponse {
+    description: string;
+    content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+    operationId: string;
+    tags: string[];
+    parameters?: OpenApiParameter[];
+    requestBody?: { required: boolean; content: Record<string, OpenApiMediaType> };
+    responses: Record<string, OpenApiResponse>;
+}
+
+export interface OpenApiDocument {
+    openapi: "3.1.0";
+    info: { title: string; version: string };
+    paths: Record<string, Partial<Record<HttpMethod, OpenApiOperation>>>;
+    components: { schemas: Record<string, JsonSchema> };
+}
+
+/**
+ * Build an OpenAPI 3.1 document from the project's routes.
+ *
+ * Request schemas come from the VineJS validators passed to `request.validateUsing()`, success
+ * responses from the body `successResponse<T>()` resolves to (e.g. `{ success: true, data: T }`) and
+ * error responses from the AppErrors entries returned through `errorResponse()`. Routes registered
+ * with `router.any()` are skipped, and routes with optional params (`/:id?`) are described once
+ * without and once with each of them, as OpenAPI path params are always required.
+ */
+export function generateOpenApi(
+    projectPath: string,
+    config: ValidatorConfig,
+    options: OpenApiOptions = {},
+): OpenApiDocument {
+    const document: OpenApiDocument = {
+        openapi: "3.1.0",
+        info: getInfo(projectPath, options),
+        paths: {},
+        components: { schemas: {} },
+    };
+    const operationIds = new Set<string>();
+
+    for (const { route, analysis } of analyzeRoutes(projectPath, config)) {
+        if (route.method === "any") continue;
+
+        Object.assign(document.components.schemas, analysis?.schemas);
+
+        for (const variant of getPathVariants(route.path)) {
+            document.paths[variant.path] = {
+                ...document.paths[variant.path],
+                [route.method]: buildOperation(route, variant.params, analysis, operationIds),
+            };
+        }
+    }
+
+    return document;
+}
+
+/**
+ * Serialize a document as JSON or YAML
+ */
+export function formatOpenApi(document: OpenApiDocument, format: "json" | "yaml"): string {
+    return format === "yaml" ? toYaml(document) : `${JSON.stringify(document, null, 2)}\n`;
+}
+
+function getInfo(projectPath: string, options: OpenApiOptions): OpenApiDocument["info"] {
+    const packageJsonPath = path.join(projectPath, "package.json");
+    const packageJson: { name?: string; version?: string } = fs.existsSync(packageJsonPath)
+        ? JSON.parse(fs.readFileSync(packageJsonPath, "utf-8"))
+        : {};
+
+    return {
+        title: options.title ?? packageJson.name ?? "API",
+        version: options.version ?? packageJson.version ?? "1.0.0",
+    };
+}
+
+function buildOperation(
+    route: RouteDefinition,
+    pathParams: string[],
+    analysis: MethodAnalysis | undefined,
+    operationIds: Set<string>,
+): OpenApiOperation {
+    const { params: paramsSchema, fields, required } = getValidatorInput(analysis);
+
+    const parameters: OpenApiParameter[] = pathParams.map((name) => ({
+        name,
+        in: "path",
+        required: true,
+        schema: paramsSchema?.properties?.[name] ?? { type: "string" },
+    }));
+
+    let requestBody: OpenApiOperation["requestBody"];
+    if (Object.keys(fields).length > 0 && QUERY_METHODS.includes(route.method)) {
+        for (const [name, schema] of Object.entries(fields)) {
+            parameters.push({ name, in: "query", required: required.includes(name), schema });
+        }
+    } else if (Object.keys(fields).length > 0) {
+        const schema: JsonSchema = { type: "object", properties: fields, ...(required.length > 0 && { required }) };
+        const mediaType = Object.values(fields).some(isFileSchema) ? "multipart/form-data" : "application/json";
+        requestBody = { required: true, content: { [mediaType]: { schema } } };
+    }
+
+    return {
+        operationId: createOperationId(route, operationIds),
+        tags: [route.controller.replace(/Controller$/, "")],
+        ...(parameters.length > 0 && { parameters }),
+        ...(requestBody && { requestBody }),
+        responses: buildResponses(analysis),
+    };
+}
+
+function buildResponses(analysis: MethodAnalysis | undefined): Record<string, OpenApiResponse> {
+    const returns = analysis?.returnStatements ?? [];
+
+    // Distinct schemas of every successResponse in the method
+    const schemas = new Map<string, JsonSchema>();
+    for (const ret of returns) {
+        if (ret.responseSchema) schemas.set(JSON.stringify(ret.responseSchema), ret.responseSchema);
+    }
+
+    const success = [...schemas.values()];
+    const responses: Record<string, OpenApiResponse> = {
+        200: {
+            description: "Successful response",
+            ...(success.length > 0 && {
+                content: { "application/json": { schema: success.length === 1 ? success[0] : { anyOf: success } } },
+            }),
+        },
+    };
+
+    // One response per status, listing the AppErrors keys that produce it
+    const errors = new Map<string, Set<string>>();
+    for (const ret of returns) {
+        if (ret.type !== "errorResponse" || !ret.usesAppErrors || !ret.appErrorsKey) continue;
+
+        const status = ret.status?.toString() ?? "default";
+        errors.set(status, (errors.get(status) ?? new Set()).add(ret.appErrorsKey));
+    }
+    for (const [status, keys] of errors) {
+        responses[status] = { description: [...keys].join(", ") };
+    }
+
+    return responses;
+}
+
+/**
+ * `UsersController.show` -> "usersShow", made unique with the HTTP method and then a counter when a
+ * handler serves several routes
+ */
+function createOperationId(route: RouteDefinition, operationIds: Set<string>): string {
+    const resource = route.controller.replace(/Controller$/, "");
+    const base = `${resource.charAt(0).toLowerCase()}${resource.slice(1)}${capitalize(route.handler)}`;
+
+    let operationId = operationIds.has(base) ? `${base}${capitalize(route.method)}` : base;
+    for (let n = 2; operationIds.has(operationId); n++) operationId = `${base}${capitalize(route.method)}${n}`;
+
+    operationIds.add(operationId);
+    return operationId;
+}
+
+function capitalize(value: string): string {
+    return `${value.charAt(0).toUpperCase()}${value.slice(1)}`;
+}
+
+/**
+ * `/users/:id` -> `/users/{id}`, and `/users/:id?` -> `/users` and `/users/{id}`, with the params of
+ * each path
+ */
+function getPathVariants(routePath: string): Array<{ path: string; params: string[] }> {
+    let paths = [""];
+    for (const segment of routePath.split("/").filter(Boolean)) {
+        const part = `/${segment.replace(/:([a-zA-Z_]\w*)\??/g, "{$1}")}`;
+        paths = /:[a-zA-Z_]\w*\?/.test(segment)
+            ? [...paths, ...paths.map((p) => `${p}${part}`)]
+            : paths.map((p) => `${p}${part}`);
+    }
+
+    return paths.map((p) => ({
+        path: p || "/",
+        params: [...p.matchAll(/\{(\w+)\}/g)].map((match) => match[1]),
+    }));
+}
+
+function isFileSchema(schema: JsonSchema): boolean {
+    return schema.format === "binary" || (schema.items !== undefined && isFileSchema(schema.items));
+}
@@ -0,0 +1,113 @@
+import * as fs from "node:fs";
+import { type AnalysisSession, createAnalysisSession } from "../parsers/analysis-session.js";
+import { analyzeController } from "../parsers/controller-analyzer.js";
+import { groupRoutesByControllerFile, parseRoutes } from "../parsers/route-parser.js";
+import type { JsonSchema, MethodAnalysis, RouteDefinition, ValidatorConfig } from "../types.js";
+
+export interface AnalyzedRoute {
+    route: RouteDefinition;
+    /** Analysis of the handler, with schemas. Unset when the controller or method cannot be found */
+    analysis?: MethodAnalysis;
+}
+
+/**
+ * Pair every route with the schema-collecting analysis of its handler, in route file order. Named
+ * schemas are unique across the analyses returned: when handlers use different types with the same
+ * name (e.g. a `User` in two controllers), the later one gets a numeric suffix.
+ */
+export function analyzeRoutes(
+    projectPath: string,
+    config: ValidatorConfig,
+    session: AnalysisSession = createAnalysisSession(projectPath),
+): AnalyzedRoute[] {
+    const routes = parseRoutes(projectPath, config.routesFile, session);
+    const analyses = new Map<RouteDefinition, MethodAnalysis | undefined>();
+    const components: Record<string, JsonSchema> = {};
+
+    for (const { controllerPath, routes: controllerRoutes } of groupRoutesByControllerFile(
+        projectPath,
+        config.controllersDir,
+        routes,
+    )) {
+        const methodAnalyses = fs.existsSync(controllerPath)
+            ? analyzeController(projectPath, controllerPath, {
+                  appErrorsPath: config.appErrorsPath,
+                  schemas: true,
+                  session,
+              })
+            : new Map<string, MethodAnalysis>();
+
+        const shared = new Map<string, MethodAnalysis>();
+        for (const route of controllerRoutes) {
+            const analysis = methodAnalyses.get(route.handler);
+            if (analysis && !shared.has(route.handler)) shared.set(route.handler, shareSchemas(analysis, components));
+            analyses.set(route, shared.get(route.handler));
+        }
+    }
+
+    return routes.map((route) => ({ route, analysis: analyses.get(route) }));
+}
+
+/**
+ * Add the named schemas of an analysis to `components`, renaming the ones whose name is taken by a
+ * different schema, and return the analysis with its references renamed to match
+ */
+function shareSchemas(analysis: MethodAnalysis, components: Record<string, JsonSchema>): MethodAnalysis {
+    const schemas = analysis.schemas ?? {};
+    const renames = new Map<string, string>();
+    const isAvailable = (candidate: string, schema: string) =>
+        !(candidate in schemas) &&
+        ![...renames.values()].includes(candidate) &&
+        (!components[candidate] || JSON.stringify(components[candidate]) === schema);
+
+    // Renaming a schema changes the schemas referencing it, which may then collide in turn
+    for (let settled = false; !settled; ) {
+        settled = true;
+        for (const [name, schema] of Object.entries(schemas)) {
+            const current = renames.get(name) ?? name;
+            const text = JSON.stringify(renameRefs(schema, renames));
+            if (!components[current] || JSON.stringify(components[current]) === text) continue;
+
+            let candidate = `${name}2`;
+            for (let n = 3; !isAvailable(candidate, text); n++) candidate = `${name}${n}`;
+            renames.set(name, candidate);
+            settled = false;
+        }
+    }
+
+    const renamed = renameRefs(schemas, renames);
+    const named = Object.fromEntries(
+        Object.entries(renamed).map(([name, schema]) => [renames.get(name) ?? name, schema]),
+    );
+    Object.assign(components, named);
+
+    return { ...renameRefs(analysis, renames), ...(analysis.schemas && { schemas: named }) };
+}
+
+/**
+ * Copy of a value with every `$ref` to a renamed schema pointing to its new name
+ */
+export function renameRefs<T>(value: T, renames: Map<string, string>): T {
+    if (renames.size === 0 || value === null || typeof value !== "object") return value;
+    if (Array.isArray(value)) return value.map((item) => renameRefs(item, renames)) as T;
+
+    return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+            key,
+            key === "$ref" && typeof item === "string"
+                ? item.replace(/[^/]+$/, (name) => renames.get(name) ?? name)
+                : renameRefs(item, renames),
+        ]),
+    ) as T;
+}
+
+/**
+ * Split a validator schema into its `params` schema and the remaining input fields
+ */
+export function getValidatorInput(analysis: MethodAnalysis | undefined) {
+    const schema = analysis?.validateUsingCalls?.find((call) => call.schema)?.schema;
+    const { params, ...fields } = schema?.properties ?? {};
+    const required = (schema?.required ?? []).filter((name) => name in fields);
+
+    return { params, fields, required };
+}
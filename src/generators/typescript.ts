@@ -0,0 +1,66 @@
+import type { JsonSchema } from "../types.js";
+
+const REF_PREFIX = "#/components/schemas/";
+
+/**
+ * Render a JSON schema as a TypeScript type. `$ref`s to components become type references, and
+ * keywords without a type-level equivalent (formats, lengths, ranges) are dropped.
+ */
+export function schemaToTypeScript(schema: JsonSchema, indent = 0): string {
+    if (schema.$ref) return schema.$ref.replace(REF_PREFIX, "");
+    if (schema.const !== undefined) return JSON.stringify(schema.const);
+    if (schema.enum) return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+    if (schema.anyOf) return schema.anyOf.map((s) => schemaToTypeScript(s, indent)).join(" | ");
+
+    if (Array.isArray(schema.type)) {
+        return schema.type.map((type) => schemaToTypeScript({ ...schema, type }, indent)).join(" | ");
+    }
+
+    switch (schema.type) {
+        case "string":
+            return schema.format === "binary" ? "Blob" : "string";
+        case "number":
+        case "integer":
+            return "number";
+        case "boolean":
+            return "boolean";
+        case "null":
+            return "null";
+        case "array":
+            if (schema.prefixItems) {
+                return `[${schema.prefixItems.map((s) => schemaToTypeScript(s, indent)).join(", ")}]`;
+            }
+            return `Array<${schema.items ? schemaToTypeScript(schema.items, indent) : "unknown"}>`;
+        case "object":
+            return objectToTypeScript(schema, indent);
+        default:
+            return "unknown";
+    }
+}
+
+function objectToTypeScript(schema: JsonSchema, indent: number): string {
+    const entries = Object.entries(schema.properties ?? {});
+    const { additionalProperties } = schema;
+
+    if (entries.length === 0) {
+        return typeof additionalProperties === "object"
+            ? `Record<string, ${schemaToTypeScript(additionalProperties, indent)}>`
+            : "Record<string, unknown>";
+    }
+
+    const pad = " ".repeat(indent + 4);
+    const required = new Set(schema.required ?? []);
+    const members = entries.map(
+        ([name, property]) =>
+            `${pad}${formatPropertyName(name)}${required.has(name) ? "" : "?"}: ${schemaToTypeScript(property, indent + 4)};`,
+    );
+
+    return `{\n${members.join("\n")}\n${" ".repeat(indent)}}`;
+}
+
+/**
+ * Quote property names that are not valid identifiers
+ */
+export function formatPropertyName(name: string): string {
+    return /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+}
@@ -0,0 +1,59 @@
+/**
+ * Scalars YAML 1.1 parsers read as booleans or null when left unquoted
+ */
+const RESERVED_SCALARS = new Set(["true", "false", "null", "yes", "no", "on", "off", "y", "n", "~"]);
+
+/**
+ * Serialize JSON-compatible data as block-style YAML. Strings are quoted whenever they could be read
+ * back as anything else, using JSON escapes (a valid YAML double-quoted scalar).
+ */
+export function toYaml(value: unknown): string {
+    return `${renderValue(value, 0).join("\n")}\n`;
+}
+
+function renderValue(value: unknown, indent: number): string[] {
+    const pad = " ".repeat(indent);
+
+    if (Array.isArray(value) && value.length > 0) {
+        return value.flatMap((item) => {
+            if (!isBlock(item)) return [`${pad}- ${renderScalar(item)}`];
+
+            // Nested blocks start on the dash line
+            const lines = renderValue(item, indent + 2);
+            return [`${pad}- ${lines[0].trimStart()}`, ...lines.slice(1)];
+        });
+    }
+
+    if (isPlainObject(value) && Object.keys(value).length > 0) {
+        return Object.entries(value)
+            .filter(([, v]) => v !== undefined)
+            .flatMap(([key, v]) =>
+                isBlock(v)
+                    ? [`${pad}${renderString(key)}:`, ...renderValue(v, indent + 2)]
+                    : [`${pad}${renderString(key)}: ${renderScalar(v)}`],
+            );
+    }
+
+    return [`${pad}${renderScalar(value)}`];
+}
+
+function renderScalar(value: unknown): string {
+    if (Array.isArray(value)) return "[]";
+    if (isPlainObject(value)) return "{}";
+    if (typeof value === "string") return renderString(value);
+    if (value === null || value === undefined) return "null";
+    return String(value);
+}
+
+function renderString(value: string): string {
+    const plain = /^[A-Za-z_][\w.-]*$/.test(value) && !RESERVED_SCALARS.has(value.toLowerCase());
+    return plain ? value : JSON.stringify(value);
+}
+
+function isBlock(value: unknown): boolean {
+    return (Array.isArray(value) || isPlainObject(value)) && Object.keys(value as object).length > 0;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,106 @@
+import { execFileSync } from "node:child_process";
+import * as path from "node:path";
+import type { FileChanges } from "./types.js";
+
+export interface GitChangeOptions {
+    /** Ref to compare with, from the point the current branch forked from it (e.g. "origin/main") */
+    since?: string;
+    /** Only look at staged changes */
+    staged?: boolean;
+}
+
+/**
+ * Read the files changed under the project from the local git repository, with their added or
+ * modified lines and the revision they are relative to. Without `staged`, uncommitted and untracked
+ * files count as changed.
+ */
+export function getGitChanges(projectPath: string, options: GitChangeOptions): FileChanges {
+    const base = options.staged ? null : git(projectPath, ["merge-base", options.since ?? "HEAD", "HEAD"]).trim();
+    const diff = git(projectPath, [
+        "diff",
+        "--unified=0",
+        "--no-color",
+        "--no-ext-diff",
+        "--relative",
+        "--src-prefix=a/",
+        "--dst-prefix=b/",
+        ...(base ? [base] : ["--cached"]),
+    ]);
+    const changes: FileChanges = { ...parseDiff(projectPath, diff), base: base ?? "HEAD" };
+
+    if (!options.staged) {
+        const untracked = git(projectPath, ["ls-files", "--others", "--exclude-standard"]);
+        changes.files.push(
+            ...untracked
+                .split("\n")
+                .filter(Boolean)
+                .map((file) => path.resolve(projectPath, file)),
+        );
+    }
+
+    return changes;
+}
+
+/**
+ * Collect files and the new-side line numbers of each hunk from a `--unified=0` diff. Hunks that only
+ * delete lines record the line the deletion follows, so removing a line still marks its surroundings.
+ */
+export function parseDiff(projectPath: string, diff: string): FileChanges {
+    const changes: FileChanges = { files: [], lines: new Map() };
+    let lines: number[] = [];
+
+    for (const line of diff.split("\n")) {
+        // Deleted files only have a "--- a/" side
+        const oldFile = line.match(/^--- a\/(.+)$/);
+        const newFile = line.match(/^\+\+\+ (?:b\/(.+)|\/dev\/null)$/);
+        const hunk = line.match(/^@@ -\d+(?:,\d+)? \+(\d+)(?:,(\d+))? @@/);
+
+        if (oldFile) {
+            changes.files.push(path.resolve(projectPath, oldFile[1]));
+        } else if (newFile) {
+            lines = [];
+            if (!newFile[1]) continue;
+
+            const filePath = path.resolve(projectPath, newFile[1]);
+            if (changes.files.at(-1) !== filePath) changes.files.push(filePath);
+            changes.lines.set(filePath, lines);
+        } else if (hunk) {
+            const start = Number(hunk[1]);
+            const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+            if (count === 0) lines.push(Math.max(start, 1));
+            for (let n = start; n < start + count; n++) lines.push(n);
+        }
+    }
+
+    return changes;
+}
+
+/**
+ * Content of a file at a revision, or null when the file did not exist there
+ */
+export function readRevisionFile(projectPath: string, revision: string, filePath: string): string | null {
+    const relativePath = path.relative(path.resolve(projectPath), path.resolve(filePath)).split(path.sep).join("/");
+    const object = `${revision}:./${relativePath}`;
+
+    try {
+        git(projectPath, ["cat-file", "-e", object]);
+    } catch {
+        return null;
+    }
+
+    return git(projectPath, ["show", object]);
+}
+
+function git(cwd: string, args: string[]): string {
+    try {
+        return execFileSync("git", ["-c", "core.quotePath=false", ...args], {
+            cwd,
+            encoding: "utf-8",
+            stdio: ["ignore", "pipe", "pipe"],
+            maxBuffer: 64 * 1024 * 1024,
+        });
+    } catch (error) {
+        const stderr = (error as { stderr?: string }).stderr?.trim();
+        throw new Error(`git ${args[0]} failed${stderr ? `: ${stderr}` : ""}`);
+    }
+}
@@ -14,18 +14,84 @@
 
 export * from "./types.js";
 
+// Analysis session shared by the parsers
+export {
+    type AnalysisSession,
+    analyzeInWorkers,
+    createAnalysisSession,
+    formatTimings,
+} from "./parsers/analysis-session.js";
+
 // Phase 2: Route parser
-export { groupRoutesByController, parseRoutes } from "./parsers/route-parser.js";
+export {
+    type ControllerRoutes,
+    groupRoutesByController,
+    groupRoutesByControllerFile,
+    parseRoutes,
+    parseRoutesText,
+    resolveControllerPath,
+} from "./parsers/route-parser.js";
 
 // Phase 3: Controller analyzer
 export { analyzeController } from "./parsers/controller-analyzer.js";
 
 // Phase 4: Validation rules
-export { validateMethod } from "./validators/index.js";
-export { runValidation, type RunResult } from "./runner.js";
+export {
+    builtinRules,
+    definePlugin,
+    defineRule,
+    getRules,
+    methodPasses,
+    validateMethod,
+} from "./validators/index.js";
+export {
+    type RunOptions,
+    type RunResult,
+    runValidation,
+    runValidationInWorkers,
+    summarizeResults,
+} from "./runner.js";
+export { type GitChangeOptions, getGitChanges, parseDiff, readRevisionFile } from "./git.js";
+export {
+    applyBaseline,
+    type Baseline,
+    type BaselineComparison,
+    type BaselineEntry,
+    createBaseline,
+    pruneBaseline,
+    readBaseline,
+    writeBaseline,
+} from "./baseline.js";
+export { createSarifLog, formatSarif, type SarifLog, type SarifResult, type SarifRule } from "./sarif.js";
+export {
+    diffResults,
+    type ReportedViolation,
+    type RunDiff,
+    type ValidationWatcher,
+    type WatchHandlers,
+    type WatchRun,
+    watchValidation,
+} from "./watch.js";
+export {
+    formatRouteTable,
+    listRoutes,
+    type RouteListEntry,
+    type RouteListFilters,
+    type RouteStatus,
+} from "./route-list.js";
+
+// API documentation and client generation
+export { generateClient } from "./generators/client.js";
+export {
+    formatOpenApi,
+    generateOpenApi,
+    type OpenApiDocument,
+    type OpenApiOperation,
+    type OpenApiOptions,
+} from "./generators/openapi.js";
 
 // Phase 5: Configuration and CLI
-export { createDefaultConfig, loadConfigFile } from "./config.js";
+export { createDefaultConfig, loadConfigFile, loadPlugins } from "./config.js";
 
 // Ace commands (optional - requires @adonisjs/core)
 export * from "./commands/index.js";
@@ -0,0 +1,296 @@
+import * as path from "node:path";
+import { performance } from "node:perf_hooks";
+import { Worker } from "node:worker_threads";
+import { Project, type SourceFile, type TypeChecker } from "ts-morph";
+import { type AnalysisCache, readCache, writeCache } from "../cache.js";
+import type { MethodAnalysis } from "../types.js";
+import { type AppErrorsReference, resolveAppErrors } from "./app-errors-resolver.js";
+import { resolveModuleSpecifier } from "./module-resolver.js";
+
+/**
+ * State shared by the route parser and every controller analysis of a run. Loading the project's
+ * tsconfig and building the program is the slow part of an analysis, so it happens once per session,
+ * on first access to `project`, and not at all when every result comes from the cache.
+ */
+export interface AnalysisSession {
+    projectPath: string;
+    project: Project;
+    typeChecker: TypeChecker;
+    /** Milliseconds spent in each phase, in the order the phases first ran */
+    timings: Map<string, number>;
+    /** Resolved AppErrors by `appErrorsPath` */
+    appErrors: Map<string, AppErrorsReference | null>;
+    /** On-disk cache, opened by the first run with `cache` enabled */
+    cache: AnalysisCache | null;
+    /** Results kept for the next run of the session, until `invalidateFiles()` reports a change to a file they derive from */
+    memo: Map<string, MemoEntry>;
+}
+
+/**
+ * Result stored by `remember()`
+ */
+interface MemoEntry {
+    /** Absolute paths of the files the data was derived from */
+    files: string[];
+    data: unknown;
+}
+
+/**
+ * Options for analyzing controllers in worker threads
+ */
+export interface WorkerAnalysisOptions {
+    appErrorsPath?: string;
+    allowedResponses?: string[];
+    schemas?: boolean;
+    /** Number of worker threads. Controllers are split between them in file order */
+    workers: number;
+}
+
+/**
+ * Method analyses of a controller file and the project files it imports
+ */
+export interface ControllerAnalysis {
+    methods: Map<string, MethodAnalysis>;
+    /** Project files imported by the controller, directly or not (validators, base controllers...) */
+    dependencies: string[];
+}
+
+/**
+ * Message sent back by a worker: the analyses and dependencies of each of its controller files
+ */
+export type WorkerAnalysisResult = Array<
+    [filePath: string, methods: Array<[name: string, analysis: MethodAnalysis]>, dependencies: string[]]
+>;
+
+/**
+ * Time spent in the phases nested in each running `measure()` or `measureAsync()` call, innermost last
+ */
+const nestedTimes: number[] = [];
+
+export function createAnalysisSession(projectPath: string): AnalysisSession {
+    const timings = new Map<string, number>();
+    let project: Project | undefined;
+
+    const getProject = () => {
+        if (!project) {
+            project = measure(
+                { timings },
+                "project",
+                () => new Project({ tsConfigFilePath: `${projectPath}/tsconfig.json` }),
+            );
+        }
+        return project;
+    };
+
+    return {
+        projectPath,
+        get project() {
+            return getProject();
+        },
+        get typeChecker() {
+            return getProject().getTypeChecker();
+        },
+        timings,
+        appErrors: new Map(),
+        cache: null,
+        memo: new Map(),
+    };
+}
+
+/**
+ * Run `fn` and add its duration to the session's timing for `phase`. Time spent in phases nested in
+ * `fn` is only counted for them.
+ */
+export function measure<T>(session: Pick<AnalysisSession, "timings">, phase: string, fn: () => T): T {
+    const stop = startMeasure(session, phase);
+
+    try {
+        return fn();
+    } finally {
+        stop();
+    }
+}
+
+/**
+ * Async counterpart of `measure()`. Runs measured this way must not overlap
+ */
+export async function measureAsync<T>(
+    session: Pick<AnalysisSession, "timings">,
+    phase: string,
+    fn: () => Promise<T>,
+): Promise<T> {
+    const stop = startMeasure(session, phase);
+
+    try {
+        return await fn();
+    } finally {
+        stop();
+    }
+}
+
+/**
+ * Start timing `phase`. The returned function stops it and records the time not spent in nested phases
+ */
+function startMeasure(session: Pick<AnalysisSession, "timings">, phase: string): () => void {
+    const start = performance.now();
+    nestedTimes.push(0);
+
+    return () => {
+        const elapsed = performance.now() - start;
+        const nested = nestedTimes.pop() ?? 0;
+        if (nestedTimes.length > 0) nestedTimes[nestedTimes.length - 1] += elapsed;
+
+        session.timings.set(phase, (session.timings.get(phase) ?? 0) + elapsed - nested);
+    };
+}
+
+/**
+ * Source file of the session's project, added on first use
+ */
+export function getSourceFile(session: AnalysisSession, filePath: string): SourceFile {
+    const absolutePath = path.resolve(filePath);
+    return session.project.getSourceFile(absolutePath) ?? session.project.addSourceFileAtPath(absolutePath);
+}
+
+/**
+ * Project files imported by a source file, directly or through other project files. Package imports
+ * are skipped.
+ */
+export function getLocalImports(session: AnalysisSession, filePath: string): string[] {
+    const root = path.resolve(session.projectPath);
+    const compilerOptions = session.project.getCompilerOptions();
+    const imports = new Set<string>();
+
+    const visit = (file: string) => {
+        const sourceFile = getSourceFile(session, file);
+        const declarations = [...sourceFile.getImportDeclarations(), ...sourceFile.getExportDeclarations()];
+
+        for (const declaration of declarations) {
+            const specifier = declaration.getModuleSpecifierValue();
+            const resolved = specifier && resolveModuleSpecifier(root, file, specifier, compilerOptions);
+            if (!resolved || imports.has(resolved) || resolved.split(path.sep).includes("node_modules")) continue;
+
+            imports.add(resolved);
+            visit(resolved);
+        }
+    };
+
+    visit(path.resolve(filePath));
+    return [...imports];
+}
+
+/**
+ * Result stored for a file under `kind` by this session or, with a cache, by an earlier run
+ */
+export function recall<T>(session: AnalysisSession, kind: string, filePath: string): T | null {
+    const key = `${kind}:${path.resolve(filePath)}`;
+    const remembered = session.memo.get(key);
+    if (remembered) return remembered.data as T;
+
+    const cached = session.cache && readCache<T>(session.cache, kind, filePath);
+    if (!cached) return null;
+
+    session.memo.set(key, cached);
+    return cached.data;
+}
+
+/**
+ * Store the result derived from a file and its dependencies for the rest of the session and in the cache
+ */
+export function remember<T>(
+    session: AnalysisSession,
+    kind: string,
+    filePath: string,
+    dependencies: string[],
+    data: T,
+): void {
+    const files = [filePath, ...dependencies].map((file) => path.resolve(file));
+    session.memo.set(`${kind}:${files[0]}`, { files, data });
+
+    if (session.cache) writeCache(session.cache, kind, filePath, dependencies, data);
+}
+
+/**
+ * Reload changed, added or deleted files and forget the results derived from them
+ */
+export function invalidateFiles(session: AnalysisSession, files: string[]): void {
+    const changed = new Set(files.map((file) => path.resolve(file)));
+
+    for (const file of changed) {
+        session.project.getSourceFile(file)?.refreshFromFileSystemSync();
+        session.cache?.hashes.delete(file);
+    }
+
+    for (const [key, entry] of session.memo) {
+        if (entry.files.some((file) => changed.has(file))) session.memo.delete(key);
+    }
+
+    // Resolved symbols belong to the previous program
+    session.appErrors.clear();
+}
+
+/**
+ * Resolve AppErrors once per session and `appErrorsPath`
+ */
+export function getAppErrors(session: AnalysisSession, appErrorsPath: string): AppErrorsReference | null {
+    if (!session.appErrors.has(appErrorsPath)) {
+        session.appErrors.set(appErrorsPath, resolveAppErrors(session.project, session.projectPath, appErrorsPath));
+    }
+
+    return session.appErrors.get(appErrorsPath) ?? null;
+}
+
+/**
+ * Analyze controller files in worker threads, each with its own session. Resolves with the analysis
+ * of every file, keyed by the file paths given.
+ */
+export async function analyzeInWorkers(
+    projectPath: string,
+    controllerPaths: string[],
+    options: WorkerAnalysisOptions,
+): Promise<Map<string, ControllerAnalysis>> {
+    const count = Math.max(1, Math.min(options.workers, controllerPaths.length));
+    const chunkSize = Math.ceil(controllerPaths.length / count);
+    const chunks = Array.from({ length: count }, (_, i) => controllerPaths.slice(i * chunkSize, (i + 1) * chunkSize));
+
+    const results = await Promise.all(
+        chunks
+            .filter((chunk) => chunk.length > 0)
+            .map(
+                (chunk) =>
+                    new Promise<WorkerAnalysisResult>((resolve, reject) => {
+                        const worker = new Worker(new URL("./analysis-worker.js", import.meta.url), {
+                            workerData: {
+                                projectPath,
+                                controllerPaths: chunk,
+                                appErrorsPath: options.appErrorsPath,
+                                allowedResponses: options.allowedResponses,
+                                schemas: options.schemas,
+                            },
+                        });
+
+                        worker.once("message", resolve);
+                        worker.once("error", reject);
+                        worker.once("exit", (code) => {
+                            if (code !== 0) reject(new Error(`Analysis worker exited with code ${code}`));
+                        });
+                    }),
+            ),
+    );
+
+    return new Map(
+        results
+            .flat()
+            .map(([filePath, methods, dependencies]) => [filePath, { methods: new Map(methods), dependencies }]),
+    );
+}
+
+/**
+ * One line per phase with its duration, followed by the total
+ */
+export function formatTimings(timings: Map<string, number>): string[] {
+    const entries = [...timings, ["total", [...timings.values()].reduce((sum, ms) => sum + ms, 0)] as const];
+    const width = Math.max(...entries.map(([phase]) => phase.length));
+
+    return entries.map(([phase, ms]) => `${phase.padEnd(width)}  ${Math.round(ms).toString().padStart(6)}ms`);
+}
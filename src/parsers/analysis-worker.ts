@@ -0,0 +1,24 @@
+import { parentPort, workerData } from "node:worker_threads";
+import { type WorkerAnalysisResult, createAnalysisSession, getLocalImports } from "./analysis-session.js";
+import { analyzeController } from "./controller-analyzer.js";
+
+/**
+ * Worker thread entry used by `analyzeInWorkers()`: analyzes its share of the controllers in one
+ * session and posts the results back, with the files each controller depends on.
+ */
+const { projectPath, controllerPaths, appErrorsPath, allowedResponses, schemas } = workerData as {
+    projectPath: string;
+    controllerPaths: string[];
+    appErrorsPath?: string;
+    allowedResponses?: string[];
+    schemas?: boolean;
+};
+
+const session = createAnalysisSession(projectPath);
+const results: WorkerAnalysisResult = controllerPaths.map((controllerPath) => [
+    controllerPath,
+    [...analyzeController(projectPath, controllerPath, { appErrorsPath, allowedResponses, schemas, session })],
+    getLocalImports(session, controllerPath),
+]);
+
+parentPort?.postMessage(results);
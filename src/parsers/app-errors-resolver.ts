@@ -0,0 +1,103 @@
+import * as path from "node:path";
+import { Node, type Project, type Symbol as TsSymbol } from "ts-morph";
+import { resolveModuleSpecifier } from "./module-resolver.js";
+
+/**
+ * The AppErrors export of the module configured with `appErrorsPath`
+ */
+export interface AppErrorsReference {
+    symbol: TsSymbol;
+    /** Declared keys, or null when the type has an index signature and any key is accepted */
+    keys: Set<string> | null;
+    /** HTTP status of each entry declaring a numeric literal `status` */
+    statuses: Map<string, number>;
+}
+
+/**
+ * Resolve `appErrorsPath` (an import specifier or a path relative to the project root) and find its
+ * AppErrors export, following re-exports. Returns null when the module or export cannot be found.
+ */
+export function resolveAppErrors(
+    project: Project,
+    projectPath: string,
+    appErrorsPath: string,
+): AppErrorsReference | null {
+    const root = path.resolve(projectPath);
+    const fromFile = path.join(root, "package.json");
+    const compilerOptions = project.getCompilerOptions();
+
+    const filePath =
+        resolveModuleSpecifier(root, fromFile, appErrorsPath, compilerOptions) ??
+        resolveModuleSpecifier(root, fromFile, `./${appErrorsPath}`, compilerOptions);
+    if (!filePath) return null;
+
+    const sourceFile = project.addSourceFileAtPathIfExists(filePath);
+    const exported = sourceFile?.getExportSymbols().find((s) => s.getName() === "AppErrors");
+    if (!sourceFile || !exported) return null;
+
+    const symbol = resolveAlias(exported);
+    const type = symbol.getTypeAtLocation(sourceFile);
+    const statuses = new Map<string, number>();
+
+    for (const property of type.getProperties()) {
+        const status = property.getTypeAtLocation(sourceFile).getProperty("status")?.getTypeAtLocation(sourceFile);
+        const value = status?.isNumberLiteral() ? status.getLiteralValue() : undefined;
+        if (typeof value === "number") statuses.set(property.getName(), value);
+    }
+
+    return {
+        symbol,
+        keys: type.getStringIndexType() ? null : new Set(type.getProperties().map((p) => p.getName())),
+        statuses,
+    };
+}
+
+/**
+ * Return the key read from AppErrors by an `AppErrors.X` or `AppErrors["X"]` argument. Returns null
+ * when the argument does not read from the configured AppErrors, whatever the local name is.
+ */
+export function getAppErrorsKey(
+    argument: Node,
+    appErrors: AppErrorsReference,
+): { key: string; known: boolean; status?: number } | null {
+    let object: Node;
+    let key: string;
+
+    if (Node.isPropertyAccessExpression(argument)) {
+        object = argument.getExpression();
+        key = argument.getName();
+    } else if (Node.isElementAccessExpression(argument)) {
+        const keyNode = argument.getArgumentExpression();
+        if (!Node.isStringLiteral(keyNode)) return null;
+
+        object = argument.getExpression();
+        key = keyNode.getLiteralValue();
+    } else {
+        return null;
+    }
+
+    const symbol = object.getSymbol();
+    if (!symbol || resolveAlias(symbol).compilerSymbol !== appErrors.symbol.compilerSymbol) return null;
+
+    const status = appErrors.statuses.get(key);
+    return {
+        key,
+        known: appErrors.keys === null || appErrors.keys.has(key),
+        ...(status !== undefined && { status }),
+    };
+}
+
+/**
+ * Follow import and re-export aliases to the declared symbol
+ */
+export function resolveAlias(symbol: TsSymbol): TsSymbol {
+    let current = symbol;
+
+    while (current.isAlias()) {
+        const aliased = current.getAliasedSymbol();
+        if (!aliased || aliased === current) break;
+        current = aliased;
+    }
+
+    return current;
+}
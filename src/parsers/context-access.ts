@@ -0,0 +1,125 @@
+import { type MethodDeclaration, Node, type ts } from "ts-morph";
+
+/**
+ * HttpContext properties tracked through the method body
+ */
+export type ContextProperty = "request" | "params" | "response";
+
+const CONTEXT_PROPERTIES: ContextProperty[] = ["request", "params", "response"];
+
+export interface ContextAccess {
+    /**
+     * Expressions evaluating to `ctx.<property>`: identifiers bound to it, `ctx.<property>` accesses
+     * and nested destructuring patterns like `{ params: { id } }`
+     */
+    references: Node[];
+    /** Whether the property is destructured or aliased anywhere in the method */
+    bound: boolean;
+}
+
+/**
+ * Find every way a method reaches the request, params and response of its HttpContext.
+ *
+ * Follows the first parameter whether it is destructured (`{ request: req }`) or a plain `ctx`,
+ * local aliases (`const c = ctx`, `const req = ctx.request`), destructuring in the body
+ * (`const { request } = ctx`) and any `.request` read on an expression typed as HttpContext
+ * (e.g. an injected `this.ctx`).
+ */
+export function findContextAccess(method: MethodDeclaration): Record<ContextProperty, ContextAccess> {
+    const access = Object.fromEntries(
+        CONTEXT_PROPERTIES.map((p) => [p, { references: [], bound: false } as ContextAccess]),
+    ) as Record<ContextProperty, ContextAccess>;
+
+    const contextSymbols = new Set<ts.Symbol>();
+    const propertySymbols = new Map<ts.Symbol, ContextProperty>();
+
+    const bind = (name: Node, property: ContextProperty) => {
+        access[property].bound = true;
+
+        // `{ params: { id } }` reads the property right away
+        if (Node.isObjectBindingPattern(name)) {
+            access[property].references.push(name);
+            return;
+        }
+
+        const symbol = name.getSymbol()?.compilerSymbol;
+        if (symbol) propertySymbols.set(symbol, property);
+    };
+
+    const bindPattern = (name: Node) => {
+        if (Node.isIdentifier(name)) {
+            const symbol = name.getSymbol()?.compilerSymbol;
+            if (symbol) contextSymbols.add(symbol);
+            return;
+        }
+        if (!Node.isObjectBindingPattern(name)) return;
+
+        for (const element of name.getElements()) {
+            const property = (element.getPropertyNameNode() ?? element.getNameNode()).getText();
+            if (isContextProperty(property)) bind(element.getNameNode(), property);
+        }
+    };
+
+    const [contextParam] = method.getParameters();
+    if (contextParam) bindPattern(contextParam.getNameNode());
+
+    // Document order: aliases are declared before they are used
+    for (const node of method.getBody()?.getDescendants() ?? []) {
+        if (Node.isPropertyAccessExpression(node) && isContextProperty(node.getName())) {
+            if (isHttpContextExpression(node.getExpression(), contextSymbols)) {
+                recordReference(node, node.getName() as ContextProperty);
+            }
+            continue;
+        }
+
+        if (!Node.isIdentifier(node) || isDeclarationName(node)) continue;
+
+        const symbol = node.getSymbol()?.compilerSymbol;
+        if (!symbol) continue;
+
+        const property = propertySymbols.get(symbol);
+        if (property) {
+            recordReference(node, property);
+        } else if (contextSymbols.has(symbol)) {
+            // `const { request } = ctx` or `const c = ctx`
+            const declaration = getDeclarationInitializedWith(node);
+            if (declaration) bindPattern(declaration.getNameNode());
+        }
+    }
+
+    return access;
+
+    function recordReference(node: Node, property: ContextProperty) {
+        access[property].references.push(node);
+
+        // `const req = ctx.request` or `const req = request`
+        const declaration = getDeclarationInitializedWith(node);
+        if (declaration && Node.isIdentifier(declaration.getNameNode())) {
+            bind(declaration.getNameNode(), property);
+        }
+    }
+}
+
+function isContextProperty(name: string): name is ContextProperty {
+    return (CONTEXT_PROPERTIES as string[]).includes(name);
+}
+
+function isHttpContextExpression(expression: Node, contextSymbols: Set<ts.Symbol>): boolean {
+    const symbol = expression.getSymbol()?.compilerSymbol;
+    if (symbol && contextSymbols.has(symbol)) return true;
+
+    return expression.getType().getSymbol()?.getName() === "HttpContext";
+}
+
+function isDeclarationName(node: Node): boolean {
+    const parent = node.getParent();
+    return (
+        (Node.isBindingElement(parent) || Node.isVariableDeclaration(parent) || Node.isParameterDeclaration(parent)) &&
+        parent.getNameNode() === node
+    );
+}
+
+function getDeclarationInitializedWith(node: Node) {
+    const parent = node.getParent();
+    return Node.isVariableDeclaration(parent) && parent.getInitializer() === node ? parent : undefined;
+}
@@ -1,15 +1,80 @@
-import { type ClassDeclaration, type MethodDeclaration, Project, SyntaxKind } from "ts-morph";
-import type { MethodAnalysis, ReturnStatement } from "../types.js";
+import {
+    type ClassDeclaration,
+    type MethodDeclaration,
+    Node,
+    type ObjectBindingPattern,
+    Scope,
+    type Statement,
+    SyntaxKind,
+} from "ts-morph";
+import type {
+    ImplicitExit,
+    JsonSchema,
+    MethodAnalysis,
+    ParamAccess,
+    RequestDataAccess,
+    ResponseCall,
+    ReturnStatement,
+    Suppression,
+    ThrowStatement,
+    ValidateUsingCall,
+} from "../types.js";
+import { type AnalysisSession, createAnalysisSession, getAppErrors, getSourceFile } from "./analysis-session.js";
+import { type AppErrorsReference, getAppErrorsKey } from "./app-errors-resolver.js";
+import { type ContextAccess, type ContextProperty, findContextAccess } from "./context-access.js";
+import { typeToJsonSchema } from "./type-schema.js";
+import { getValidatorParams, getValidatorSchema } from "./validator-analyzer.js";
 
 /**
- * Analyze a controller class and extract method information
+ * Response methods that only configure the response without sending a body
  */
-export function analyzeController(projectPath: string, controllerPath: string): Map<string, MethodAnalysis> {
-    const project = new Project({
-        tsConfigFilePath: `${projectPath}/tsconfig.json`,
-    });
+const NON_SENDING_RESPONSE_METHODS = new Set([
+    "header",
+    "safeHeader",
+    "append",
+    "removeHeader",
+    "getHeader",
+    "getHeaders",
+    "status",
+    "safeStatus",
+    "type",
+    "vary",
+    "cookie",
+    "plainCookie",
+    "encryptedCookie",
+    "clearCookie",
+]);
+
+/**
+ * Request methods returning unvalidated input
+ */
+const REQUEST_DATA_ACCESSORS = new Set(["body", "all", "input", "only", "except", "qs", "file"]);
+
+const DISABLE_NEXT_LINE = /\/\/\s*adonis-validator-disable-next-line\b(.*)$/;
+const DISABLE_METHOD = /@adonis-validator-disable\b([^\n]*)/g;
 
-    const sourceFile = project.addSourceFileAtPath(controllerPath);
+export interface AnalyzerOptions {
+    /** Import specifier or project-relative path of the module exporting AppErrors */
+    appErrorsPath?: string;
+    /** Response calls ending a path like a return (`ValidatorConfig.allowedResponses`). Defaults to none */
+    allowedResponses?: string[];
+    /** Collect JSON schemas of validators and successResponse types (used by the OpenAPI generator) */
+    schemas?: boolean;
+    /** Session whose Project is reused. A new one is created when unset */
+    session?: AnalysisSession;
+}
+
+/**
+ * Analyze a controller class and extract method information
+ */
+export function analyzeController(
+    projectPath: string,
+    controllerPath: string,
+    options: AnalyzerOptions = {},
+): Map<string, MethodAnalysis> {
+    const session = options.session ?? createAnalysisSession(projectPath);
+    const sourceFile = getSourceFile(session, controllerPath);
+    const appErrors = options.appErrorsPath ? getAppErrors(session, options.appErrorsPath) : null;
     const results = new Map<string, MethodAnalysis>();
 
     // Find the default export class
@@ -20,72 +85,237 @@ export function analyzeController(projectPath: string, controllerPath: string):
 
     // Analyze each method
     for (const method of classDecl.getMethods()) {
-        const analysis = analyzeMethod(method, className, controllerPath);
+        const analysis = analyzeMethod(method, className, controllerPath, appErrors, {
+            allowedResponses: options.allowedResponses ?? [],
+            collectSchemas: options.schemas ?? false,
+        });
         results.set(method.getName(), analysis);
     }
 
     return results;
 }
 
-function analyzeMethod(method: MethodDeclaration, className: string, filePath: string): MethodAnalysis {
+function analyzeMethod(
+    method: MethodDeclaration,
+    className: string,
+    filePath: string,
+    appErrors: AppErrorsReference | null,
+    options: { allowedResponses: string[]; collectSchemas: boolean },
+): MethodAnalysis {
     const methodName = method.getName();
+    const schemas: Record<string, JsonSchema> | null = options.collectSchemas ? {} : null;
 
     // Check if method uses request or params
-    const usesRequest = checkUsesRequest(method);
-    const usesParams = checkUsesParams(method);
+    const contextAccess = findContextAccess(method);
+    const usesRequest = checkUsesRequest(contextAccess);
+    const usesParams = checkUsesParams(contextAccess);
+
+    // Check for validateUsing calls and raw request data reads
+    const validateUsingCalls = analyzeValidateUsingCalls(method, contextAccess, schemas !== null);
+    const hasValidateUsing = validateUsingCalls.length > 0;
+    const requestDataAccesses = analyzeRequestDataAccesses(contextAccess);
 
-    // Check for validateUsing call
-    const hasValidateUsing = checkHasValidateUsing(method);
+    // Record which route params are read
+    const paramAccesses = analyzeParamAccesses(contextAccess);
 
     // Analyze return statements
-    const returnStatements = analyzeReturnStatements(method);
+    const returnStatements = analyzeReturnStatements(method, appErrors, schemas);
+
+    // Find paths leaving the method without a response
+    const implicitExits = analyzeImplicitExits(method, options.allowedResponses);
+
+    // Record throw sites
+    const throwStatements = analyzeThrowStatements(method);
+
+    // Find response calls sending a body outside return statements
+    const responseCalls = analyzeResponseCalls(method);
+
+    // Collect suppression comments
+    const suppressions = collectSuppressions(method);
 
     return {
         controller: className,
         method: methodName,
         filePath,
         line: method.getStartLineNumber(),
+        isPublic: !method.isStatic() && method.getScope() === Scope.Public && !methodName.startsWith("#"),
         usesRequest,
         usesParams,
         hasValidateUsing,
+        validateUsingCalls,
+        requestDataAccesses,
+        paramAccesses,
         returnStatements,
+        responseCalls,
+        implicitExits,
+        throwStatements,
+        suppressions,
+        ...(schemas && { schemas }),
     };
 }
 
-function checkUsesRequest(method: MethodDeclaration): boolean {
-    // Check if 'request' is in the destructured HttpContext parameter
-    const params = method.getParameters();
-    if (params.length === 0) return false;
+function checkUsesRequest(access: Record<ContextProperty, ContextAccess>): boolean {
+    // Destructuring or aliasing the request counts as using it
+    return access.request.bound || access.request.references.length > 0;
+}
 
-    const firstParam = params[0];
-    const paramText = firstParam.getText();
+function checkUsesParams(access: Record<ContextProperty, ContextAccess>): boolean {
+    if (access.params.bound || access.params.references.length > 0) return true;
 
-    // Check for { request } or { request, ... } pattern
-    return /\brequest\b/.test(paramText);
+    // request.param("id") and request.params() read route params too
+    return access.request.references.some((ref) => {
+        const parent = ref.getParent();
+        return Node.isPropertyAccessExpression(parent) && ["param", "params"].includes(parent.getName());
+    });
 }
 
-function checkUsesParams(method: MethodDeclaration): boolean {
-    const params = method.getParameters();
-    if (params.length === 0) return false;
+/**
+ * Collect `request.validateUsing()` calls, resolved through the request's symbol rather than its text
+ */
+function analyzeValidateUsingCalls(
+    method: MethodDeclaration,
+    access: Record<ContextProperty, ContextAccess>,
+    collectSchemas: boolean,
+): ValidateUsingCall[] {
+    const calls: ValidateUsingCall[] = [];
+
+    for (const ref of access.request.references) {
+        const parent = ref.getParent();
+        if (!Node.isPropertyAccessExpression(parent) || parent.getName() !== "validateUsing") continue;
 
-    const firstParam = params[0];
-    const paramText = firstParam.getText();
+        const call = parent.getParent();
+        if (!Node.isCallExpression(call) || call.getExpression() !== parent) continue;
+
+        const [validator] = call.getArguments();
+        const params = validator ? getValidatorParams(validator) : null;
+        const schema = validator && collectSchemas ? getValidatorSchema(validator) : null;
+        calls.push({
+            line: call.getStartLineNumber(),
+            awaited: isAwaitedBeforeUse(call, method),
+            ...(validator && { validator: validator.getText() }),
+            ...(params && { params }),
+            ...(schema && { schema }),
+            text: call.getText(),
+        });
+    }
 
-    return /\bparams\b/.test(paramText);
+    return calls;
 }
 
-function checkHasValidateUsing(method: MethodDeclaration): boolean {
-    const callExpressions = method.getDescendantsOfKind(SyntaxKind.CallExpression);
+/**
+ * Whether a promise is awaited directly, or stored in a variable whose first use awaits it
+ */
+function isAwaitedBeforeUse(expression: Node, method: MethodDeclaration): boolean {
+    let parent = expression.getParent();
+    while (Node.isParenthesizedExpression(parent)) parent = parent.getParent();
 
-    return callExpressions.some((call) => {
-        const text = call.getExpression().getText();
-        return text.includes("validateUsing");
-    });
+    if (Node.isAwaitExpression(parent)) return true;
+    if (!Node.isVariableDeclaration(parent)) return false;
+
+    // `const pending = request.validateUsing(v)` followed by `await pending`
+    const symbol = parent.getNameNode().getSymbol()?.compilerSymbol;
+    if (!symbol || !Node.isIdentifier(parent.getNameNode())) return false;
+
+    const firstUse = method
+        .getDescendantsOfKind(SyntaxKind.Identifier)
+        .find((id) => id !== parent.getNameNode() && id.getSymbol()?.compilerSymbol === symbol);
+
+    return firstUse !== undefined && isAwaitedBeforeUse(firstUse, method);
+}
+
+/**
+ * Collect reads of raw request data that bypass the validator
+ */
+function analyzeRequestDataAccesses(access: Record<ContextProperty, ContextAccess>): RequestDataAccess[] {
+    const accesses: RequestDataAccess[] = [];
+
+    for (const ref of access.request.references) {
+        const parent = ref.getParent();
+        if (!Node.isPropertyAccessExpression(parent) || !REQUEST_DATA_ACCESSORS.has(parent.getName())) continue;
+
+        const call = parent.getParent();
+        const node = Node.isCallExpression(call) && call.getExpression() === parent ? call : parent;
+        accesses.push({
+            line: node.getStartLineNumber(),
+            accessor: parent.getName(),
+            text: node.getText(),
+        });
+    }
+
+    return accesses;
 }
 
-function analyzeReturnStatements(method: MethodDeclaration): ReturnStatement[] {
+/**
+ * Collect route param reads: `params.id`, `params["id"]`, destructuring and `request.param("id")`.
+ * Reads that cannot be resolved to a name (e.g. passing `params` along) are recorded without one.
+ */
+function analyzeParamAccesses(access: Record<ContextProperty, ContextAccess>): ParamAccess[] {
+    const accesses: ParamAccess[] = [];
+    const record = (node: Node, name: string | undefined) => {
+        accesses.push({ line: node.getStartLineNumber(), ...(name !== undefined && { name }), text: node.getText() });
+    };
+
+    for (const ref of access.params.references) {
+        const parent = ref.getParent();
+
+        if (Node.isObjectBindingPattern(ref)) {
+            recordBindingPattern(ref, record);
+        } else if (Node.isPropertyAccessExpression(parent) && parent.getExpression() === ref) {
+            record(parent, parent.getName());
+        } else if (Node.isElementAccessExpression(parent) && parent.getExpression() === ref) {
+            const key = parent.getArgumentExpression();
+            record(parent, Node.isStringLiteral(key) ? key.getLiteralValue() : undefined);
+        } else if (Node.isVariableDeclaration(parent) && parent.getInitializer() === ref) {
+            // Identifier aliases are followed by findContextAccess
+            const name = parent.getNameNode();
+            if (Node.isObjectBindingPattern(name)) recordBindingPattern(name, record);
+        } else {
+            record(ref, undefined);
+        }
+    }
+
+    for (const ref of access.request.references) {
+        const parent = ref.getParent();
+        if (!Node.isPropertyAccessExpression(parent) || !["param", "params"].includes(parent.getName())) continue;
+
+        const call = parent.getParent();
+        if (!Node.isCallExpression(call)) continue;
+
+        const [key] = call.getArguments();
+        const name = parent.getName() === "param" && Node.isStringLiteral(key) ? key.getLiteralValue() : undefined;
+        record(call, name);
+    }
+
+    return accesses.sort((a, b) => a.line - b.line);
+}
+
+function recordBindingPattern(pattern: ObjectBindingPattern, record: (node: Node, name: string | undefined) => void) {
+    for (const element of pattern.getElements()) {
+        const propertyName = element.getPropertyNameNode();
+
+        if (element.getDotDotDotToken()) {
+            record(element, undefined);
+        } else if (!propertyName) {
+            record(element, element.getName());
+        } else if (Node.isIdentifier(propertyName) || Node.isStringLiteral(propertyName)) {
+            record(
+                element,
+                Node.isStringLiteral(propertyName) ? propertyName.getLiteralValue() : propertyName.getText(),
+            );
+        } else {
+            // Computed key
+            record(element, undefined);
+        }
+    }
+}
+
+function analyzeReturnStatements(
+    method: MethodDeclaration,
+    appErrors: AppErrorsReference | null,
+    schemas: Record<string, JsonSchema> | null,
+): ReturnStatement[] {
     const returnStatements: ReturnStatement[] = [];
-    const returns = method.getDescendantsOfKind(SyntaxKind.ReturnStatement);
+    const returns = method.getDescendantsOfKind(SyntaxKind.ReturnStatement).filter((r) => belongsToMethod(r, method));
 
     for (const ret of returns) {
         const expression = ret.getExpression();
@@ -95,24 +325,28 @@ function analyzeReturnStatements(method: MethodDeclaration): ReturnStatement[] {
         const line = ret.getStartLineNumber();
 
         if (text.includes("this.successResponse")) {
+            const responseSchema = schemas ? getResponseSchema(expression, schemas) : null;
             returnStatements.push({
                 line,
                 type: "successResponse",
                 hasGenericType: checkHasGenericType(text),
                 text,
+                ...(responseSchema && { responseSchema }),
             });
         } else if (text.includes("this.errorResponse")) {
             returnStatements.push({
                 line,
                 type: "errorResponse",
-                usesAppErrors: checkUsesAppErrors(text),
+                ...checkErrorResponseArgument(expression, text, appErrors),
                 text,
             });
         } else {
+            const callee = getResponseCallee(expression);
             returnStatements.push({
                 line,
                 type: "other",
                 text,
+                ...(callee && { callee }),
             });
         }
     }
@@ -120,11 +354,301 @@ function analyzeReturnStatements(method: MethodDeclaration): ReturnStatement[] {
     return returnStatements;
 }
 
+function analyzeThrowStatements(method: MethodDeclaration): ThrowStatement[] {
+    const throwStatements: ThrowStatement[] = [];
+
+    for (const statement of method.getDescendantsOfKind(SyntaxKind.ThrowStatement)) {
+        if (!belongsToMethod(statement, method)) continue;
+
+        const expression = statement.getExpression();
+        const text = expression.getText();
+        const exceptionClass = getExceptionClass(expression);
+
+        throwStatements.push({
+            line: statement.getStartLineNumber(),
+            text,
+            ...(exceptionClass && { exceptionClass }),
+            isRethrow: isCaughtError(expression),
+        });
+    }
+
+    return throwStatements;
+}
+
+/**
+ * Name what a throw builds: the class of `new X()`, or the root of a factory call like `X.create()`
+ */
+function getExceptionClass(expression: Node): string | null {
+    if (Node.isNewExpression(expression)) {
+        return expression.getExpression().getText();
+    }
+
+    if (Node.isCallExpression(expression)) {
+        let callee = expression.getExpression();
+        while (Node.isPropertyAccessExpression(callee)) callee = callee.getExpression();
+        return Node.isIdentifier(callee) ? callee.getText() : null;
+    }
+
+    return null;
+}
+
+/**
+ * Whether a thrown identifier is the error bound by an enclosing catch clause
+ */
+function isCaughtError(expression: Node): boolean {
+    if (!Node.isIdentifier(expression)) return false;
+
+    return expression
+        .getAncestors()
+        .some((a) => Node.isCatchClause(a) && a.getVariableDeclaration()?.getName() === expression.getText());
+}
+
+/**
+ * Find the paths leaving the method without a value: bare `return;` statements and, when some path
+ * reaches the closing brace, the end of the method. Paths ending in `throw` or in one of the
+ * `allowedResponses` calls are not exits.
+ */
+function analyzeImplicitExits(method: MethodDeclaration, allowedResponses: string[]): ImplicitExit[] {
+    const body = method.getBody();
+    if (!body || !Node.isBlock(body)) return [];
+
+    const exits: ImplicitExit[] = method
+        .getDescendantsOfKind(SyntaxKind.ReturnStatement)
+        .filter((r) => !r.getExpression() && belongsToMethod(r, method))
+        .map((r) => ({ line: r.getStartLineNumber(), kind: "empty-return" }));
+
+    if (completesNormally(body, allowedResponses)) {
+        exits.push({ line: method.getEndLineNumber(), kind: "fallthrough" });
+    }
+
+    return exits;
+}
+
+/**
+ * Whether execution can continue past a statement, i.e. it does not always return, throw, send one
+ * of the allowed responses or loop forever
+ */
+function completesNormally(statement: Statement, allowedResponses: string[]): boolean {
+    const completes = (s: Statement) => completesNormally(s, allowedResponses);
+
+    if (Node.isBlock(statement)) {
+        return statement.getStatements().every(completes);
+    }
+
+    if (Node.isReturnStatement(statement) || Node.isThrowStatement(statement)) {
+        return false;
+    }
+
+    // `response.redirect().toRoute()`, `await response.download()`...
+    if (Node.isExpressionStatement(statement)) {
+        let expression = statement.getExpression();
+        if (Node.isAwaitExpression(expression)) expression = expression.getExpression();
+        return !isAllowedResponse(getResponseCallee(expression), allowedResponses);
+    }
+
+    if (Node.isIfStatement(statement)) {
+        const elseStatement = statement.getElseStatement();
+        return completes(statement.getThenStatement()) || !elseStatement || completes(elseStatement);
+    }
+
+    if (Node.isTryStatement(statement)) {
+        const finallyBlock = statement.getFinallyBlock();
+        if (finallyBlock && !completes(finallyBlock)) return false;
+
+        const catchClause = statement.getCatchClause();
+        return completes(statement.getTryBlock()) || (!!catchClause && completes(catchClause.getBlock()));
+    }
+
+    if (Node.isSwitchStatement(statement)) {
+        const clauses = statement.getClauses();
+        const lastClause = clauses.at(-1);
+        const hasDefault = clauses.some((c) => Node.isDefaultClause(c));
+
+        return (
+            !hasDefault || hasBreakTargeting(statement) || !lastClause || lastClause.getStatements().every(completes)
+        );
+    }
+
+    if (Node.isWhileStatement(statement) || Node.isDoStatement(statement) || Node.isForStatement(statement)) {
+        const condition = Node.isForStatement(statement) ? statement.getCondition() : statement.getExpression();
+        const infinite = !condition || condition.getKind() === SyntaxKind.TrueKeyword;
+        return !infinite || hasBreakTargeting(statement);
+    }
+
+    if (Node.isLabeledStatement(statement)) {
+        return completes(statement.getStatement()) || hasBreakTargeting(statement.getStatement());
+    }
+
+    return true;
+}
+
+/**
+ * Whether a `break` leaves the given loop or switch
+ */
+function hasBreakTargeting(target: Statement): boolean {
+    const parent = target.getParent();
+    const label = Node.isLabeledStatement(parent) ? parent.getLabel().getText() : null;
+
+    return target.getDescendantsOfKind(SyntaxKind.BreakStatement).some((breakStatement) => {
+        const breakLabel = breakStatement.getLabel()?.getText();
+        if (breakLabel) return breakLabel === label;
+
+        const enclosing = breakStatement.getFirstAncestor(
+            (a) => Node.isIterationStatement(a) || Node.isSwitchStatement(a) || Node.isFunctionLikeDeclaration(a),
+        );
+        return enclosing === target;
+    });
+}
+
+/**
+ * Find `response.json()`, `response.status(201).send()` and similar calls made outside return statements
+ */
+function analyzeResponseCalls(method: MethodDeclaration): ResponseCall[] {
+    const calls: ResponseCall[] = [];
+
+    for (const statement of method.getDescendantsOfKind(SyntaxKind.ExpressionStatement)) {
+        if (!belongsToMethod(statement, method)) continue;
+
+        let expression = statement.getExpression();
+        if (Node.isAwaitExpression(expression)) expression = expression.getExpression();
+
+        const callee = getResponseCallee(expression);
+        if (!callee) continue;
+
+        const lastMethod = callee.split(".").at(-1) as string;
+        if (NON_SENDING_RESPONSE_METHODS.has(lastMethod)) continue;
+
+        calls.push({ line: statement.getStartLineNumber(), callee, text: expression.getText() });
+    }
+
+    return calls;
+}
+
+/**
+ * Normalize a call chain on the response object: `ctx.response.status(201).send(x)` -> "response.status.send"
+ */
+function getResponseCallee(expression: Node): string | null {
+    if (!Node.isCallExpression(expression)) return null;
+
+    const names: string[] = [];
+    let current: Node = expression;
+
+    while (Node.isCallExpression(current) || Node.isPropertyAccessExpression(current)) {
+        if (Node.isPropertyAccessExpression(current)) names.unshift(current.getName());
+        current = current.getExpression();
+    }
+
+    if (Node.isIdentifier(current)) names.unshift(current.getText());
+
+    const root = names.indexOf("response");
+    return root === -1 || root === names.length - 1 ? null : names.slice(root).join(".");
+}
+
+/**
+ * Whether a response call chain starts with one of the allowed ones, e.g. "response.redirect.toRoute"
+ * for "response.redirect"
+ */
+export function isAllowedResponse(callee: string | null | undefined, allowedResponses: string[]): boolean {
+    if (!callee) return false;
+
+    return allowedResponses.some((allowed) => callee === allowed || callee.startsWith(`${allowed}.`));
+}
+
+/**
+ * Whether a node runs as part of the method itself rather than a nested function or callback
+ */
+function belongsToMethod(node: Node, method: MethodDeclaration): boolean {
+    return node.getFirstAncestor((a) => Node.isFunctionLikeDeclaration(a)) === method;
+}
+
+function collectSuppressions(method: MethodDeclaration): Suppression[] {
+    const suppressions: Suppression[] = [];
+    const sourceFile = method.getSourceFile();
+
+    // Method-level JSDoc tags
+    for (const jsDoc of method.getJsDocs()) {
+        for (const match of jsDoc.getText().matchAll(DISABLE_METHOD)) {
+            const line = sourceFile.getLineAndColumnAtPos(jsDoc.getStart() + (match.index ?? 0)).line;
+            suppressions.push({ scope: "method", line, ...parseSuppressionDirective(match[1]) });
+        }
+    }
+
+    // Line comments, from the comments leading the method to its closing brace
+    const firstLine = sourceFile.getLineAndColumnAtPos(method.getFullStart()).line;
+    const lines = sourceFile.getFullText().split("\n");
+
+    for (let line = firstLine; line <= method.getEndLineNumber(); line++) {
+        const match = lines[line - 1]?.match(DISABLE_NEXT_LINE);
+        if (!match) continue;
+
+        suppressions.push({ scope: "line", line, targetLine: line + 1, ...parseSuppressionDirective(match[1]) });
+    }
+
+    return suppressions;
+}
+
+function parseSuppressionDirective(text: string): Pick<Suppression, "rules" | "reason"> {
+    // Strip a trailing JSDoc terminator, then split "rule-a, rule-b -- reason"
+    const [rulesText, ...reasonParts] = text.replace(/\*\/\s*$/, "").split("--");
+    const reason = reasonParts.join("--").trim();
+
+    return {
+        rules: rulesText.split(/[\s,]+/).filter(Boolean),
+        ...(reason && { reason }),
+    };
+}
+
+/**
+ * JSON schema of the body `this.successResponse<T>()` resolves to, e.g. `{ success: true, data: T }`
+ * for a BaseController returning `Promise<SuccessfulRequest<T>>`
+ */
+function getResponseSchema(expression: Node, schemas: Record<string, JsonSchema>): JsonSchema | null {
+    const call = [expression, ...expression.getDescendants()].find(
+        (node) => Node.isCallExpression(node) && node.getExpression().getText() === "this.successResponse",
+    );
+    if (!Node.isCallExpression(call)) return null;
+
+    const returnType = call.getReturnType();
+    const body = returnType.getSymbol()?.getName() === "Promise" ? returnType.getTypeArguments()[0] : returnType;
+
+    return body ? typeToJsonSchema(body, call, schemas) : null;
+}
+
 function checkHasGenericType(text: string): boolean {
     // Check for successResponse<Type> pattern
     return /successResponse\s*<[^>]+>/.test(text);
 }
 
+/**
+ * Check the first argument of errorResponse against the configured AppErrors with the type checker,
+ * falling back to a name match when the AppErrors module cannot be resolved
+ */
+function checkErrorResponseArgument(
+    expression: Node,
+    text: string,
+    appErrors: AppErrorsReference | null,
+): Pick<ReturnStatement, "usesAppErrors" | "appErrorsKey" | "status"> {
+    if (!appErrors) {
+        return { usesAppErrors: checkUsesAppErrors(text) };
+    }
+
+    const call = [expression, ...expression.getDescendants()].find(
+        (node) => Node.isCallExpression(node) && node.getExpression().getText() === "this.errorResponse",
+    );
+    const argument = Node.isCallExpression(call) ? call.getArguments()[0] : undefined;
+    const reference = argument ? getAppErrorsKey(argument, appErrors) : null;
+
+    if (!reference) {
+        return { usesAppErrors: false };
+    }
+
+    return {
+        usesAppErrors: reference.known,
+        appErrorsKey: reference.key,
+        ...(reference.status !== undefined && { status: reference.status }),
+    };
+}
+
 function checkUsesAppErrors(text: string): boolean {
     // Check for AppErrors.SOMETHING pattern
     return /AppErrors\.\w+/.test(text);
@@ -0,0 +1,117 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { CompilerOptions } from "ts-morph";
+
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts"];
+
+/**
+ * Resolve an import specifier to a TypeScript source file.
+ *
+ * Handles relative specifiers, `package.json` `imports` subpath aliases (e.g. `#controllers/*`)
+ * and tsconfig `paths`. Bare package specifiers are not resolved.
+ */
+export function resolveModuleSpecifier(
+    projectPath: string,
+    fromFile: string,
+    specifier: string,
+    compilerOptions: CompilerOptions = {},
+): string | null {
+    return listModuleCandidates(projectPath, fromFile, specifier, compilerOptions).find(isSourceFile) ?? null;
+}
+
+/**
+ * Files an import specifier resolves to, in resolution order, whether or not they exist. The first
+ * existing one is what `resolveModuleSpecifier()` returns.
+ */
+export function listModuleCandidates(
+    projectPath: string,
+    fromFile: string,
+    specifier: string,
+    compilerOptions: CompilerOptions = {},
+): string[] {
+    if (specifier.startsWith(".")) {
+        return listSourceCandidates(path.resolve(path.dirname(fromFile), specifier));
+    }
+
+    const subpathTargets = specifier.startsWith("#")
+        ? matchSubpathImports(projectPath, specifier).map((target) => path.resolve(projectPath, target))
+        : [];
+    const pathsBase = compilerOptions.baseUrl ?? (compilerOptions.pathsBasePath as string | undefined) ?? projectPath;
+    const pathsTargets = matchPatterns(compilerOptions.paths ?? {}, specifier).map((target) =>
+        path.resolve(pathsBase, target),
+    );
+
+    return [...subpathTargets, ...pathsTargets].flatMap(listSourceCandidates);
+}
+
+/**
+ * Source files a path written with a runtime extension (or none) may point to
+ */
+function listSourceCandidates(candidate: string): string[] {
+    const withoutExtension = candidate.replace(/\.(m|c)?js$/, "");
+
+    return [
+        candidate,
+        ...SOURCE_EXTENSIONS.map((ext) => `${withoutExtension}${ext}`),
+        ...SOURCE_EXTENSIONS.map((ext) => path.join(withoutExtension, `index${ext}`)),
+    ];
+}
+
+function isSourceFile(file: string): boolean {
+    return SOURCE_EXTENSIONS.includes(path.extname(file)) && fs.existsSync(file) && fs.statSync(file).isFile();
+}
+
+function matchSubpathImports(projectPath: string, specifier: string): string[] {
+    const packageJsonPath = path.join(projectPath, "package.json");
+    if (!fs.existsSync(packageJsonPath)) return [];
+
+    const { imports = {} } = JSON.parse(fs.readFileSync(packageJsonPath, "utf-8")) as {
+        imports?: Record<string, unknown>;
+    };
+
+    const targets: Record<string, string[]> = {};
+    for (const [key, value] of Object.entries(imports)) {
+        const target = pickConditionalTarget(value);
+        if (target) targets[key] = [target];
+    }
+
+    return matchPatterns(targets, specifier);
+}
+
+/**
+ * Pick the target of a conditional `imports` entry, preferring source-oriented conditions
+ */
+function pickConditionalTarget(value: unknown): string | null {
+    if (typeof value === "string") return value;
+    if (!value || typeof value !== "object") return null;
+
+    const conditions = value as Record<string, unknown>;
+    for (const condition of ["types", "import", "node", "default"]) {
+        const target = pickConditionalTarget(conditions[condition]);
+        if (target) return target;
+    }
+
+    return null;
+}
+
+/**
+ * Match a specifier against `{ "prefix/*": ["target/*"] }` style patterns, exact keys first
+ */
+function matchPatterns(patterns: Record<string, string[]>, specifier: string): string[] {
+    if (patterns[specifier]) return patterns[specifier];
+
+    for (const [pattern, targets] of Object.entries(patterns)) {
+        const star = pattern.indexOf("*");
+        if (star === -1) continue;
+
+        const prefix = pattern.slice(0, star);
+        const suffix = pattern.slice(star + 1);
+        if (!specifier.startsWith(prefix) || !specifier.endsWith(suffix)) continue;
+        if (specifier.length < prefix.length + suffix.length) continue;
+
+        const matched = specifier.slice(prefix.length, specifier.length - suffix.length);
+        return targets.map((target) => target.replace("*", matched));
+    }
+
+    return [];
+}
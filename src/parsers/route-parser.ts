@@ -1,78 +1,487 @@
-import { type ArrayLiteralExpression, type CallExpression, Project, SyntaxKind } from "ts-morph";
+import * as path from "node:path";
+import {
+    type ArrayLiteralExpression,
+    type CallExpression,
+    type CompilerOptions,
+    Node,
+    type SourceFile,
+    SyntaxKind,
+} from "ts-morph";
 import type { HttpMethod, RouteDefinition } from "../types.js";
+import { type AnalysisSession, createAnalysisSession, getSourceFile } from "./analysis-session.js";
+import { resolveModuleSpecifier } from "./module-resolver.js";
 
 const HTTP_METHODS = ["get", "post", "patch", "put", "delete", "any"] as const;
 
+/**
+ * Routes registered by `router.resource()`, relative to the resource path
+ */
+const RESOURCE_ACTIONS: Array<{ handler: string; method: HttpMethod; path: string }> = [
+    { handler: "index", method: "get", path: "/" },
+    { handler: "create", method: "get", path: "/create" },
+    { handler: "store", method: "post", path: "/" },
+    { handler: "show", method: "get", path: "/:id" },
+    { handler: "edit", method: "get", path: "/:id/edit" },
+    { handler: "update", method: "put", path: "/:id" },
+    { handler: "update", method: "patch", path: "/:id" },
+    { handler: "destroy", method: "delete", path: "/:id" },
+];
+
+/**
+ * A chained call on a route or group, e.g. `.prefix('/api')`
+ */
+interface ChainedCall {
+    name: string;
+    args: Node[];
+}
+
+/**
+ * Settings inherited from the groups enclosing a route, innermost first
+ */
+interface GroupScope {
+    prefixes: string[];
+    names: string[];
+    domain?: string;
+    /** Middleware of every enclosing group, outermost first */
+    middleware: string[];
+}
+
+/**
+ * Controller referenced by a route handler
+ */
+interface ControllerReference {
+    controller: string;
+    controllerImport?: string;
+    controllerPath?: string;
+}
+
+/**
+ * What route parsing needs to resolve controller imports
+ */
+interface ParseContext {
+    projectPath: string;
+    sourceFile: SourceFile;
+    compilerOptions: CompilerOptions;
+}
+
 /**
  * Parse routes.ts and extract all route definitions
  */
-export function parseRoutes(projectPath: string, routesFile: string): RouteDefinition[] {
-    const project = new Project({
-        tsConfigFilePath: `${projectPath}/tsconfig.json`,
-    });
+export function parseRoutes(
+    projectPath: string,
+    routesFile: string,
+    session: AnalysisSession = createAnalysisSession(projectPath),
+): RouteDefinition[] {
+    return collectRoutes(projectPath, getSourceFile(session, path.join(projectPath, routesFile)), session);
+}
 
-    const sourceFile = project.addSourceFileAtPath(`${projectPath}/${routesFile}`);
+/**
+ * Parse routes from `text` as if it were the content of the routes file, e.g. the file at an earlier
+ * revision. Controller imports resolve from the routes file directory, and the session's copy of the
+ * file is left untouched.
+ */
+export function parseRoutesText(
+    projectPath: string,
+    routesFile: string,
+    text: string,
+    session: AnalysisSession = createAnalysisSession(projectPath),
+): RouteDefinition[] {
+    const filePath = path.resolve(projectPath, routesFile);
+    const sourceFile = session.project.createSourceFile(
+        path.join(path.dirname(filePath), `${path.basename(filePath, ".ts")}.text.ts`),
+        text,
+        { overwrite: true },
+    );
+
+    try {
+        return collectRoutes(projectPath, sourceFile, session);
+    } finally {
+        session.project.removeSourceFile(sourceFile);
+    }
+}
+
+function collectRoutes(projectPath: string, sourceFile: SourceFile, session: AnalysisSession): RouteDefinition[] {
     const routes: RouteDefinition[] = [];
+    const context: ParseContext = {
+        projectPath: path.resolve(projectPath),
+        sourceFile,
+        compilerOptions: session.project.getCompilerOptions(),
+    };
 
     // Find all call expressions
     const callExpressions = sourceFile.getDescendantsOfKind(SyntaxKind.CallExpression);
 
     for (const call of callExpressions) {
-        const route = parseRouteCall(call);
+        const route = parseRouteCall(call, context);
         if (route) {
             routes.push(route);
         }
+
+        routes.push(...parseResourceCall(call, context));
     }
 
     return routes;
 }
 
-function parseRouteCall(call: CallExpression): RouteDefinition | null {
-    const expression = call.getExpression();
-    const expressionText = expression.getText();
+function parseRouteCall(call: CallExpression, context: ParseContext): RouteDefinition | null {
+    const httpMethod = getRouterMethod(call);
+    if (!httpMethod || !(HTTP_METHODS as readonly string[]).includes(httpMethod)) return null;
 
-    // Match router.get, router.post, etc.
-    const methodMatch = expressionText.match(/router\.(get|post|patch|put|delete|any)$/);
-    if (!methodMatch) return null;
-
-    const httpMethod = methodMatch[1] as HttpMethod;
     const args = call.getArguments();
 
     if (args.length < 2) return null;
 
     // First arg is path
-    const pathArg = args[0];
-    const path = pathArg.getText().replace(/['"]/g, "");
+    const pattern = getStringValue(args[0]) ?? args[0].getText().replace(/['"`]/g, "");
 
-    // Second arg should be [Controller, "method"]
+    // Second arg should be [Controller, "method"] or "#controllers/users_controller.method"
     const handlerArg = args[1];
-    if (!handlerArg.isKind(SyntaxKind.ArrayLiteralExpression)) {
+    const handlerString = getStringValue(handlerArg);
+    let controller: ControllerReference;
+    let methodName: string;
+
+    if (handlerString?.includes(".")) {
+        const separator = handlerString.lastIndexOf(".");
+        controller = resolveControllerSpecifier(handlerString.slice(0, separator), context);
+        methodName = handlerString.slice(separator + 1);
+    } else if (handlerArg.isKind(SyntaxKind.ArrayLiteralExpression)) {
+        const arrayElements = (handlerArg as ArrayLiteralExpression).getElements();
+        if (arrayElements.length !== 2) return null;
+
+        controller = resolveControllerReference(arrayElements[0], context);
+        methodName = arrayElements[1].getText().replace(/['"]/g, "");
+    } else {
         // Inline handler, skip
         return null;
     }
 
-    const arrayElements = (handlerArg as ArrayLiteralExpression).getElements();
-    if (arrayElements.length !== 2) return null;
+    // Route-level modifiers apply before the ones of enclosing groups
+    const chain = getChainedCalls(call);
+    const path = chain
+        .filter((c) => c.name === "prefix")
+        .reduce((resolved, c) => joinPaths(getStringValue(c.args[0]) ?? "", resolved), normalizePath(pattern));
+
+    return createRoute(call, getGroupScope(call), {
+        method: httpMethod as HttpMethod,
+        path,
+        ...controller,
+        handler: methodName,
+        name: getLastStringArg(chain, "as"),
+        domain: getLastStringArg(chain, "domain"),
+        middleware: getChainedMiddleware(chain),
+    });
+}
+
+/**
+ * Expand `router.resource()` into one route per resourceful action
+ */
+function parseResourceCall(call: CallExpression, context: ParseContext): RouteDefinition[] {
+    if (getRouterMethod(call) !== "resource") return [];
+
+    const [resourceArg, controllerArg] = call.getArguments();
+    const resource = getStringValue(resourceArg);
+    if (!resource || !controllerArg) return [];
+
+    const chain = getChainedCalls(call);
+    let actions = RESOURCE_ACTIONS.map((a) => a.handler);
+    const params: Record<string, string> = {};
+    const middleware: Array<{ actions: string[] | "*"; names: string[] }> = [];
+
+    for (const chained of chain) {
+        if (chained.name === "apiOnly") {
+            actions = actions.filter((a) => a !== "create" && a !== "edit");
+        }
+        if (chained.name === "only") {
+            const only = getStringArray(chained.args[0]);
+            actions = actions.filter((a) => only.includes(a));
+        }
+        if (chained.name === "except") {
+            const except = getStringArray(chained.args[0]);
+            actions = actions.filter((a) => !except.includes(a));
+        }
+        if (chained.name === "params") {
+            Object.assign(params, getStringRecord(chained.args[0]));
+        }
+        if (chained.name === "use" && chained.args.length > 1) {
+            // .use("*", middleware.auth()) or .use(["store", "update"], middleware.auth())
+            const actions = getStringValue(chained.args[0]) === "*" ? "*" : getStringArray(chained.args[0]);
+            middleware.push({ actions, names: getMiddlewareNames(chained.args[1]) });
+        }
+    }
+
+    // "posts.comments" nests comments under /posts/:post_id
+    const segments = resource.split(".");
+    const mainResource = segments.pop() as string;
+    const parents = segments.map((s) => `/${s}/:${params[s] || `${singularize(s)}_id`}`).join("");
+    const basePath = normalizePath(`${parents}/${mainResource}`);
+    const idParam = params[mainResource] || "id";
 
-    const controllerName = arrayElements[0].getText();
-    const methodName = arrayElements[1].getText().replace(/['"]/g, "");
+    const resourceName =
+        getLastStringArg(chain, "as") ?? [...segments, mainResource].map((s) => s.replace(/-/g, "_")).join(".");
+    const scope = getGroupScope(call);
+    const controller = resolveControllerReference(controllerArg, context);
+
+    return RESOURCE_ACTIONS.filter((action) => actions.includes(action.handler)).map((action) =>
+        createRoute(call, scope, {
+            method: action.method,
+            path: joinPaths(basePath, action.path.replace(":id", `:${idParam}`)),
+            ...controller,
+            handler: action.handler,
+            name: `${resourceName}.${action.handler}`,
+            middleware: middleware
+                .filter((m) => m.actions === "*" || m.actions.includes(action.handler))
+                .flatMap((m) => m.names),
+        }),
+    );
+}
+
+/**
+ * Build a route definition, applying the settings of enclosing groups
+ */
+function createRoute(
+    call: CallExpression,
+    scope: GroupScope,
+    route: Pick<RouteDefinition, "method" | "path" | "handler" | "name" | "domain" | "middleware"> &
+        ControllerReference,
+): RouteDefinition {
+    const path = scope.prefixes.reduce((resolved, prefix) => joinPaths(prefix, resolved), route.path);
+    const name = resolveRouteName(route.name, scope.names);
+    const domain = route.domain || scope.domain;
+    const middleware = [...scope.middleware, ...route.middleware];
 
     // Extract path parameters
     const pathParams = extractPathParams(path);
 
     return {
-        method: httpMethod,
+        method: route.method,
         path,
-        controller: controllerName,
-        handler: methodName,
+        controller: route.controller,
+        handler: route.handler,
+        ...(route.controllerImport && { controllerImport: route.controllerImport }),
+        ...(route.controllerPath && { controllerPath: route.controllerPath }),
         line: call.getStartLineNumber(),
         hasPathParams: pathParams.length > 0,
         pathParams,
+        middleware,
+        ...(name && { name }),
+        ...(domain && { domain }),
+    };
+}
+
+/**
+ * Follow the controller used in a handler tuple back to its `import()` or static import
+ */
+function resolveControllerReference(node: Node, context: ParseContext): ControllerReference {
+    const controller = node.getText();
+    let specifier: string | null = getDynamicImportSpecifier(node);
+
+    if (!specifier && Node.isIdentifier(node)) {
+        const variable = context.sourceFile.getVariableDeclaration(controller);
+        specifier = getDynamicImportSpecifier(variable?.getInitializer());
+
+        const importDecl = context.sourceFile
+            .getImportDeclarations()
+            .find((decl) => decl.getDefaultImport()?.getText() === controller);
+        specifier ??= importDecl?.getModuleSpecifierValue() ?? null;
+    }
+
+    if (!specifier) return { controller };
+
+    // Keep the identifier used in routes.ts as the controller name; inline imports are named after the file
+    const reference = resolveControllerSpecifier(specifier, context);
+    return Node.isIdentifier(node) ? { ...reference, controller } : reference;
+}
+
+/**
+ * Resolve a controller import specifier, naming the controller after its file when needed
+ */
+function resolveControllerSpecifier(specifier: string, context: ParseContext): ControllerReference {
+    const controllerPath = resolveModuleSpecifier(
+        context.projectPath,
+        context.sourceFile.getFilePath(),
+        specifier,
+        context.compilerOptions,
+    );
+    const controller = path
+        .basename(specifier)
+        .replace(/\.(m|c)?[jt]s$/, "")
+        .replace(/(^|_)([a-z])/g, (_, __, letter: string) => letter.toUpperCase());
+
+    return {
+        controller,
+        controllerImport: specifier,
+        ...(controllerPath && { controllerPath }),
     };
 }
 
+/**
+ * Return the specifier of `() => import("...")`
+ */
+function getDynamicImportSpecifier(node: Node | undefined): string | null {
+    if (!Node.isArrowFunction(node) && !Node.isFunctionExpression(node)) return null;
+
+    const importCall = node.getFirstDescendantByKind(SyntaxKind.CallExpression);
+    if (!importCall || importCall.getExpression().getKind() !== SyntaxKind.ImportKeyword) return null;
+
+    return getStringValue(importCall.getArguments()[0]);
+}
+
+/**
+ * Return the method name of a `router.<method>(...)` call
+ */
+function getRouterMethod(call: CallExpression): string | null {
+    const expression = call.getExpression();
+    if (!Node.isPropertyAccessExpression(expression)) return null;
+    if (expression.getExpression().getText() !== "router") return null;
+
+    return expression.getName();
+}
+
+/**
+ * Collect the calls chained onto an expression, in call order
+ */
+function getChainedCalls(call: CallExpression): ChainedCall[] {
+    const chain: ChainedCall[] = [];
+    let current: Node = call;
+
+    for (;;) {
+        const access = current.getParent();
+        if (!Node.isPropertyAccessExpression(access) || access.getExpression() !== current) break;
+
+        const next = access.getParent();
+        if (!Node.isCallExpression(next) || next.getExpression() !== access) break;
+
+        chain.push({ name: access.getName(), args: next.getArguments() });
+        current = next;
+    }
+
+    return chain;
+}
+
+/**
+ * Walk up from a route call through every enclosing `router.group()` callback
+ */
+function getGroupScope(call: CallExpression): GroupScope {
+    const scope: GroupScope = { prefixes: [], names: [], middleware: [] };
+
+    for (const ancestor of call.getAncestors()) {
+        if (!Node.isArrowFunction(ancestor) && !Node.isFunctionExpression(ancestor)) continue;
+
+        const groupCall = ancestor.getParent();
+        if (!Node.isCallExpression(groupCall) || getRouterMethod(groupCall) !== "group") continue;
+        if (groupCall.getArguments()[0] !== ancestor) continue;
+
+        const chain = getChainedCalls(groupCall);
+        scope.middleware = [...getChainedMiddleware(chain), ...scope.middleware];
+
+        for (const chained of chain) {
+            const value = getStringValue(chained.args[0]);
+            if (value === null) continue;
+
+            if (chained.name === "prefix") scope.prefixes.push(value);
+            if (chained.name === "as") scope.names.push(value);
+            // The innermost domain wins, like AdonisJS does
+            if (chained.name === "domain" && !scope.domain) scope.domain = value;
+        }
+    }
+
+    return scope;
+}
+
+/**
+ * Collect middleware names from `.use()` and `.middleware()` calls of a route or group
+ */
+function getChainedMiddleware(chain: ChainedCall[]): string[] {
+    return chain
+        .filter((c) => c.name === "use" || c.name === "middleware")
+        .flatMap((c) => c.args.flatMap(getMiddlewareNames));
+}
+
+/**
+ * Name middleware references: `middleware.auth({ guards: ["api"] })` -> "auth", `"auth:api"` -> "auth"
+ */
+function getMiddlewareNames(node: Node): string[] {
+    if (Node.isArrayLiteralExpression(node)) {
+        return node.getElements().flatMap(getMiddlewareNames);
+    }
+
+    const value = getStringValue(node);
+    if (value !== null) return [value.split(":")[0]];
+
+    const callee = Node.isCallExpression(node) ? node.getExpression() : node;
+    if (Node.isPropertyAccessExpression(callee)) return [callee.getName()];
+    if (Node.isIdentifier(callee)) return [callee.getText()];
+
+    return [node.getText()];
+}
+
+/**
+ * Prepend group names to a route name. Unnamed routes stay unnamed.
+ */
+function resolveRouteName(name: string | undefined, groupNames: string[]): string | undefined {
+    if (!name) return undefined;
+
+    return groupNames.reduce((resolved, groupName) => `${groupName}.${resolved}`, name);
+}
+
+function getLastStringArg(chain: ChainedCall[], name: string): string | undefined {
+    const call = chain.filter((c) => c.name === name).at(-1);
+    return getStringValue(call?.args[0]) ?? undefined;
+}
+
+function getStringArray(node: Node | undefined): string[] {
+    if (Node.isArrayLiteralExpression(node)) {
+        return node.getElements().flatMap((e) => getStringValue(e) ?? []);
+    }
+
+    const value = getStringValue(node);
+    return value === null ? [] : [value];
+}
+
+function getStringRecord(node: Node | undefined): Record<string, string> {
+    const record: Record<string, string> = {};
+    if (!Node.isObjectLiteralExpression(node)) return record;
+
+    for (const property of node.getProperties()) {
+        if (!Node.isPropertyAssignment(property)) continue;
+
+        const value = getStringValue(property.getInitializer());
+        if (value !== null) {
+            record[property.getName().replace(/['"]/g, "")] = value;
+        }
+    }
+
+    return record;
+}
+
+/**
+ * Naive English singular, enough for resource names ("posts" -> "post", "categories" -> "category")
+ */
+function singularize(word: string): string {
+    if (/ies$/.test(word)) return word.replace(/ies$/, "y");
+    if (/(ss|us|is)$/.test(word)) return word;
+    if (/(s|x|z|ch|sh)es$/.test(word)) return word.replace(/es$/, "");
+    return word.replace(/s$/, "");
+}
+
+function getStringValue(node: Node | undefined): string | null {
+    if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) {
+        return node.getLiteralValue();
+    }
+
+    return null;
+}
+
+function normalizePath(path: string): string {
+    return `/${path.split("/").filter(Boolean).join("/")}`;
+}
+
+function joinPaths(prefix: string, path: string): string {
+    return normalizePath(`${prefix}/${path}`);
+}
+
 function extractPathParams(path: string): string[] {
-    const matches = path.match(/:([a-zA-Z_]+)/g) || [];
+    const matches = path.match(/:([a-zA-Z_]\w*)/g) || [];
     return matches.map((m) => m.substring(1));
 }
 
@@ -90,3 +499,54 @@ export function groupRoutesByController(routes: RouteDefinition[]): Map<string,
 
     return grouped;
 }
+
+/**
+ * Routes pointing to one controller file
+ */
+export interface ControllerRoutes {
+    /** Controller name used by the first route */
+    controller: string;
+    /** File a route imports, or the conventional location of the controller when no import resolves */
+    controllerPath: string;
+    routes: RouteDefinition[];
+}
+
+/**
+ * Group routes by the controller file they point to, so same-named controllers in different
+ * directories stay apart. Routes whose import cannot be resolved fall back to the file named after
+ * their controller in `controllersDir`.
+ */
+export function groupRoutesByControllerFile(
+    projectPath: string,
+    controllersDir: string,
+    routes: RouteDefinition[],
+): ControllerRoutes[] {
+    const grouped = new Map<string, ControllerRoutes>();
+
+    for (const route of routes) {
+        const controllerPath =
+            route.controllerPath ?? resolveControllerPath(projectPath, controllersDir, route.controller);
+        const key = path.resolve(controllerPath);
+        const group = grouped.get(key);
+
+        if (!group) {
+            grouped.set(key, { controller: route.controller, controllerPath, routes: [route] });
+        } else {
+            // Prefer the file the route imports over the conventional location
+            if (route.controllerPath) group.controllerPath = route.controllerPath;
+            group.routes.push(route);
+        }
+    }
+
+    return [...grouped.values()];
+}
+
+/**
+ * Locate a controller by naming convention: `UsersController` -> `<controllersDir>/users_controller.ts`
+ */
+export function resolveControllerPath(projectPath: string, controllersDir: string, controllerName: string): string {
+    // Convert PascalCase to snake_case
+    const fileName = controllerName.replace(/([a-z])([A-Z])/g, "$1_$2").toLowerCase();
+
+    return path.join(projectPath, controllersDir, `${fileName}.ts`);
+}
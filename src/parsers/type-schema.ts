@@ -0,0 +1,147 @@
+import type { Node, Type, ts } from "ts-morph";
+import type { JsonSchema } from "../types.js";
+
+/**
+ * Nesting depth after which types are emitted as `{}`
+ */
+const MAX_DEPTH = 8;
+
+/**
+ * Component name of each named type, per components record
+ */
+const componentNames = new WeakMap<Record<string, JsonSchema>, Map<ts.Type, string>>();
+
+/**
+ * Convert a TypeScript type to JSON Schema.
+ *
+ * Named interfaces, classes and type aliases without type arguments are added to `components` and
+ * referenced with `$ref`, which also keeps recursive types finite. Same-named types declared in
+ * different files get a numeric suffix (`User2`). Function-valued properties are dropped, as they do
+ * not survive serialization.
+ */
+export function typeToJsonSchema(
+    type: Type,
+    location: Node,
+    components: Record<string, JsonSchema>,
+    depth = 0,
+): JsonSchema {
+    if (depth > MAX_DEPTH || type.isAny() || type.isUnknown()) return {};
+
+    if (type.isString()) return { type: "string" };
+    if (type.isNumber()) return { type: "number" };
+    if (type.isBoolean()) return { type: "boolean" };
+    if (type.isNull()) return { type: "null" };
+    if (type.isStringLiteral() || type.isNumberLiteral()) {
+        const value = type.getLiteralValue();
+        return { type: typeof value === "number" ? "number" : "string", const: value };
+    }
+    if (type.isBooleanLiteral()) return { type: "boolean", const: type.getText() === "true" };
+
+    if (type.isUnion()) {
+        return unionToJsonSchema(type, location, components, depth);
+    }
+
+    if (type.isArray()) {
+        return {
+            type: "array",
+            items: typeToJsonSchema(type.getArrayElementTypeOrThrow(), location, components, depth + 1),
+        };
+    }
+    if (type.isTuple()) {
+        return {
+            type: "array",
+            prefixItems: type.getTupleElements().map((t) => typeToJsonSchema(t, location, components, depth + 1)),
+        };
+    }
+
+    if (type.getSymbol()?.getName() === "Date") return { type: "string", format: "date-time" };
+
+    if (type.isObject() || type.isIntersection()) {
+        const name = getComponentName(type);
+        if (!name) return objectToJsonSchema(type, location, components, depth);
+
+        const names = componentNames.get(components) ?? new Map<ts.Type, string>();
+        componentNames.set(components, names);
+
+        let key = names.get(type.compilerType);
+        if (!key) {
+            key = name;
+            for (let n = 2; components[key]; n++) key = `${name}${n}`;
+
+            // Registered before converting so recursive references resolve to the same component
+            names.set(type.compilerType, key);
+            components[key] = {};
+            components[key] = objectToJsonSchema(type, location, components, depth);
+        }
+        return { $ref: `#/components/schemas/${key}` };
+    }
+
+    return {};
+}
+
+function unionToJsonSchema(
+    type: Type,
+    location: Node,
+    components: Record<string, JsonSchema>,
+    depth: number,
+): JsonSchema {
+    // Optional properties add `undefined`, which has no JSON representation
+    const members = type.getUnionTypes().filter((t) => !t.isUndefined());
+    if (members.length === 1) return typeToJsonSchema(members[0], location, components, depth);
+
+    // `boolean` is the union `true | false`
+    const booleans = members.filter((t) => t.isBooleanLiteral());
+    const others = members.filter((t) => !t.isBooleanLiteral());
+    const schemas = [
+        ...(booleans.length === 2
+            ? [{ type: "boolean" }]
+            : booleans.map((t) => typeToJsonSchema(t, location, components, depth))),
+        ...others.map((t) => typeToJsonSchema(t, location, components, depth)),
+    ];
+
+    if (schemas.length > 0 && schemas.every((s) => s.const !== undefined && s.type === schemas[0].type)) {
+        return { type: schemas[0].type, enum: schemas.map((s) => s.const) };
+    }
+
+    return schemas.length === 1 ? schemas[0] : { anyOf: schemas };
+}
+
+function objectToJsonSchema(
+    type: Type,
+    location: Node,
+    components: Record<string, JsonSchema>,
+    depth: number,
+): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const property of type.getProperties()) {
+        const propertyType = property.getTypeAtLocation(location);
+        if (propertyType.getCallSignatures().length > 0) continue;
+
+        const name = property.getName();
+        properties[name] = typeToJsonSchema(propertyType, location, components, depth + 1);
+        if (!property.isOptional()) required.push(name);
+    }
+
+    const indexType = type.getStringIndexType();
+    return {
+        type: "object",
+        properties,
+        ...(required.length > 0 && { required }),
+        ...(indexType && { additionalProperties: typeToJsonSchema(indexType, location, components, depth + 1) }),
+    };
+}
+
+/**
+ * Name of a declared type worth sharing as a component; anonymous and generic types are inlined
+ */
+function getComponentName(type: Type): string | null {
+    const alias = type.getAliasSymbol();
+    if (alias) return type.getAliasTypeArguments().length === 0 ? alias.getName() : null;
+
+    const symbol = type.getSymbol();
+    if (!symbol || symbol.getName().startsWith("__") || type.getTypeArguments().length > 0) return null;
+
+    return type.isInterface() || type.isClass() ? symbol.getName() : null;
+}
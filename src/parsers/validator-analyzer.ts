@@ -0,0 +1,270 @@
+import { type CallExpression, Node, type ObjectLiteralExpression, SyntaxKind } from "ts-morph";
+import type { JsonSchema } from "../types.js";
+import { resolveAlias } from "./app-errors-resolver.js";
+
+/**
+ * Vine methods turning a schema into a validator
+ */
+const COMPILE_METHODS = new Set(["compile", "create"]);
+
+/**
+ * Read the keys of the `params` schema of a VineJS validator passed to `request.validateUsing()`.
+ *
+ * Follows identifiers (including imports) to `vine.compile(vine.object({...}))` or `vine.create({...})`.
+ * Returns an empty array for validators without a `params` schema, and null when the validator
+ * cannot be resolved statically.
+ */
+export function getValidatorParams(validator: Node): string[] | null {
+    const schema = resolveObjectSchema(validator, true);
+    if (!schema) return null;
+
+    const params = schema.getProperty("params");
+    if (!params) return [];
+    if (!Node.isPropertyAssignment(params)) return null;
+
+    const paramsSchema = resolveObjectSchema(params.getInitializerOrThrow(), false);
+    return paramsSchema ? getPropertyNames(paramsSchema) : null;
+}
+
+/**
+ * Convert the schema of a VineJS validator to JSON Schema. Returns null when the validator cannot be
+ * resolved statically; schema types without a JSON equivalent become `{}`.
+ */
+export function getValidatorSchema(validator: Node): JsonSchema | null {
+    const schema = resolveObjectSchema(validator, true);
+    return schema ? convertObjectShape(schema, new Set()) : null;
+}
+
+/**
+ * Resolve an expression to the object literal describing a `vine.object()` shape
+ */
+function resolveObjectSchema(
+    expression: Node,
+    compiled: boolean,
+    seen = new Set<Node>(),
+): ObjectLiteralExpression | null {
+    if (seen.has(expression)) return null;
+    seen.add(expression);
+
+    if (Node.isParenthesizedExpression(expression) || Node.isAsExpression(expression)) {
+        return resolveObjectSchema(expression.getExpression(), compiled, seen);
+    }
+
+    if (Node.isIdentifier(expression)) {
+        const initializer = getInitializer(expression);
+        return initializer ? resolveObjectSchema(initializer, compiled, seen) : null;
+    }
+
+    // `vine.create({...})` accepts the shape itself
+    if (Node.isObjectLiteralExpression(expression)) return compiled ? null : expression;
+
+    if (!Node.isCallExpression(expression)) return null;
+
+    const callee = expression.getExpression();
+    if (!Node.isPropertyAccessExpression(callee)) return null;
+
+    const [argument] = expression.getArguments();
+    const name = callee.getName();
+
+    if (compiled && COMPILE_METHODS.has(name)) {
+        return argument ? resolveObjectSchema(argument, false, seen) : null;
+    }
+    if (!compiled && name === "object") {
+        return argument ? resolveObjectSchema(argument, false, seen) : null;
+    }
+
+    // Modifiers like `vine.object({...}).allowUnknownProperties()`
+    return resolveObjectSchema(callee.getExpression(), compiled, seen);
+}
+
+function getPropertyNames(schema: ObjectLiteralExpression): string[] {
+    return schema
+        .getProperties()
+        .filter((p) => Node.isPropertyAssignment(p) || Node.isShorthandPropertyAssignment(p))
+        .map((p) => p.getName().replace(/^["']|["']$/g, ""));
+}
+
+/**
+ * Follow an identifier (including imports) to the initializer of its variable declaration
+ */
+function getInitializer(identifier: Node): Node | undefined {
+    const symbol = identifier.getSymbol();
+    const declaration = symbol ? resolveAlias(symbol).getValueDeclaration() : undefined;
+    return Node.isVariableDeclaration(declaration) ? declaration.getInitializer() : undefined;
+}
+
+interface ConvertedSchema {
+    schema: JsonSchema;
+    optional: boolean;
+}
+
+function convertObjectShape(shape: ObjectLiteralExpression, seen: Set<Node>): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+
+    for (const property of shape.getProperties()) {
+        if (!Node.isPropertyAssignment(property) && !Node.isShorthandPropertyAssignment(property)) continue;
+
+        const initializer = Node.isPropertyAssignment(property) ? property.getInitializer() : property.getNameNode();
+        if (!initializer) continue;
+
+        const name = property.getName().replace(/^["']|["']$/g, "");
+        const converted = convertVineSchema(initializer, seen);
+        properties[name] = converted.schema;
+        if (!converted.optional) required.push(name);
+    }
+
+    return { type: "object", properties, ...(required.length > 0 && { required }) };
+}
+
+/**
+ * Convert a VineJS schema expression such as `vine.string().email().optional()`
+ */
+function convertVineSchema(expression: Node, seen: Set<Node>): ConvertedSchema {
+    const unknown = { schema: {}, optional: false };
+
+    if (Node.isParenthesizedExpression(expression) || Node.isAsExpression(expression)) {
+        return convertVineSchema(expression.getExpression(), seen);
+    }
+
+    // Schemas shared through a variable, guarding against self references
+    if (Node.isIdentifier(expression)) {
+        const initializer = getInitializer(expression);
+        if (!initializer || seen.has(initializer)) return unknown;
+
+        seen.add(initializer);
+        const converted = convertVineSchema(initializer, seen);
+        seen.delete(initializer);
+        return converted;
+    }
+
+    if (!Node.isCallExpression(expression)) return unknown;
+
+    const callee = expression.getExpression();
+    if (!Node.isPropertyAccessExpression(callee)) return unknown;
+
+    // `vine.string()` starts a schema, anything else chained on a schema modifies it
+    const target = callee.getExpression();
+    if (Node.isIdentifier(target) && !getInitializer(target)) {
+        return { schema: createBaseSchema(callee.getName(), expression, seen), optional: false };
+    }
+
+    return applyModifier(convertVineSchema(target, seen), callee.getName(), expression);
+}
+
+function createBaseSchema(name: string, call: CallExpression, seen: Set<Node>): JsonSchema {
+    const [argument] = call.getArguments();
+
+    switch (name) {
+        case "string":
+            return { type: "string" };
+        case "number":
+            return { type: "number" };
+        case "boolean":
+        case "accepted":
+            return { type: "boolean" };
+        case "date":
+            return { type: "string", format: "date-time" };
+        case "file":
+            return { type: "string", format: "binary" };
+        case "literal":
+            return argument ? { const: getLiteralValue(argument) } : {};
+        case "enum": {
+            const values = argument && getLiteralArray(argument);
+            return values ? { enum: values } : {};
+        }
+        case "array":
+            return { type: "array", items: argument ? convertVineSchema(argument, seen).schema : {} };
+        case "tuple": {
+            const items = Node.isArrayLiteralExpression(argument) ? argument.getElements() : [];
+            return { type: "array", prefixItems: items.map((item) => convertVineSchema(item, seen).schema) };
+        }
+        case "record":
+            return { type: "object", additionalProperties: argument ? convertVineSchema(argument, seen).schema : {} };
+        case "object": {
+            const shape = argument && resolveObjectSchema(argument, false);
+            return shape ? convertObjectShape(shape, seen) : { type: "object" };
+        }
+        default:
+            return {};
+    }
+}
+
+function applyModifier(converted: ConvertedSchema, name: string, call: CallExpression): ConvertedSchema {
+    const { schema } = converted;
+    const [argument] = call.getArguments();
+    const number = argument ? getLiteralValue(argument) : undefined;
+    const isArray = schema.type === "array";
+
+    switch (name) {
+        case "optional":
+            return { ...converted, optional: true };
+        case "nullable":
+            return {
+                ...converted,
+                schema: typeof schema.type === "string" ? { ...schema, type: [schema.type, "null"] } : schema,
+            };
+        case "email":
+            return { ...converted, schema: { ...schema, format: "email" } };
+        case "url":
+            return { ...converted, schema: { ...schema, format: "uri" } };
+        case "uuid":
+            return { ...converted, schema: { ...schema, format: "uuid" } };
+        case "withoutDecimals":
+            return { ...converted, schema: { ...schema, type: "integer" } };
+        case "in": {
+            const values = argument && getLiteralArray(argument);
+            return values ? { ...converted, schema: { ...schema, enum: values } } : converted;
+        }
+        case "regex":
+            return Node.isRegularExpressionLiteral(argument)
+                ? { ...converted, schema: { ...schema, pattern: argument.getLiteralValue().source } }
+                : converted;
+    }
+
+    if (typeof number !== "number") return converted;
+
+    switch (name) {
+        case "min":
+            return { ...converted, schema: { ...schema, minimum: number } };
+        case "max":
+            return { ...converted, schema: { ...schema, maximum: number } };
+        case "minLength":
+            return { ...converted, schema: { ...schema, [isArray ? "minItems" : "minLength"]: number } };
+        case "maxLength":
+            return { ...converted, schema: { ...schema, [isArray ? "maxItems" : "maxLength"]: number } };
+        case "fixedLength":
+            return {
+                ...converted,
+                schema: isArray
+                    ? { ...schema, minItems: number, maxItems: number }
+                    : { ...schema, minLength: number, maxLength: number },
+            };
+        default:
+            return converted;
+    }
+}
+
+function getLiteralValue(node: Node): unknown {
+    if (Node.isStringLiteral(node) || Node.isNoSubstitutionTemplateLiteral(node)) return node.getLiteralValue();
+    if (Node.isNumericLiteral(node)) return node.getLiteralValue();
+    if (Node.isTrueLiteral(node) || Node.isFalseLiteral(node)) return node.getLiteralValue();
+    if (Node.isNullLiteral(node)) return null;
+    if (Node.isPrefixUnaryExpression(node) && node.getOperatorToken() === SyntaxKind.MinusToken) {
+        const operand = getLiteralValue(node.getOperand());
+        return typeof operand === "number" ? -operand : undefined;
+    }
+    return undefined;
+}
+
+function getLiteralArray(node: Node): unknown[] | null {
+    if (Node.isIdentifier(node)) {
+        const initializer = getInitializer(node);
+        return initializer ? getLiteralArray(initializer) : null;
+    }
+    if (Node.isAsExpression(node)) return getLiteralArray(node.getExpression());
+    if (!Node.isArrayLiteralExpression(node)) return null;
+
+    const values = node.getElements().map(getLiteralValue);
+    return values.every((v) => v !== undefined) ? values : null;
+}
@@ -0,0 +1,151 @@
+import * as path from "node:path";
+import { createAnalysisSession, recall } from "./parsers/analysis-session.js";
+import { groupRoutesByControllerFile } from "./parsers/route-parser.js";
+import { runValidation } from "./runner.js";
+import type { HttpMethod, MethodAnalysis, RouteDefinition, ValidatorConfig } from "./types.js";
+
+/**
+ * Validation outcome of the handler bound to a route
+ */
+export type RouteStatus = "passed" | "warnings" | "failed" | "whitelisted" | "missing";
+
+export interface RouteListEntry {
+    method: HttpMethod;
+    /** Path including group prefixes */
+    path: string;
+    name?: string;
+    domain?: string;
+    controller: string;
+    handler: string;
+    middleware: string[];
+    /** Line of the route in the routes file */
+    routeLine: number;
+    /** Controller file relative to the project root. Unset when the handler was not found */
+    file?: string;
+    /** Line of the handler method in the controller file */
+    handlerLine?: number;
+    status: RouteStatus;
+    errorCount: number;
+    warningCount: number;
+}
+
+export interface RouteListFilters {
+    /** Controller name, with or without the "Controller" suffix (case-insensitive) */
+    controller?: string;
+    /** HTTP method (case-insensitive) */
+    method?: string;
+    /** Path pattern. `*` matches any characters; without `*` any path containing the pattern matches */
+    path?: string;
+}
+
+/**
+ * List every route with its controller location and validation status, without booting the app
+ */
+export function listRoutes(
+    projectPath: string,
+    config: ValidatorConfig,
+    filters: RouteListFilters = {},
+): RouteListEntry[] {
+    const session = createAnalysisSession(projectPath);
+    const { results } = runValidation(projectPath, config, { session });
+
+    // The run parsed the routes and analyzed their controllers, whitelisted handlers included
+    const allRoutes = recall<RouteDefinition[]>(session, "routes", path.join(projectPath, config.routesFile)) ?? [];
+    const routes = allRoutes.filter((route) => matchesFilters(route, filters));
+    const controllerPaths = new Map(
+        groupRoutesByControllerFile(projectPath, config.controllersDir, allRoutes).flatMap((group) =>
+            group.routes.map((route) => [route, path.resolve(group.controllerPath)] as const),
+        ),
+    );
+    const getHandler = (route: RouteDefinition) => {
+        const controllerPath = controllerPaths.get(route) as string;
+        const methods = recall<Array<[string, MethodAnalysis]>>(session, "controller", controllerPath) ?? [];
+        return methods.find(([name]) => name === route.handler)?.[1];
+    };
+
+    // Same-named controllers may live in different files, so results are matched by file
+    const resultsByHandler = new Map(results.map((r) => [`${path.resolve(r.filePath)}#${r.method}`, r]));
+
+    return routes.map((route) => {
+        const methodKey = `${route.controller}.${route.handler}`;
+        const result = resultsByHandler.get(`${controllerPaths.get(route)}#${route.handler}`);
+        const handler = getHandler(route);
+        const errorCount = result?.violations.filter((v) => v.severity === "error").length ?? 0;
+        const warningCount = result?.violations.filter((v) => v.severity === "warning").length ?? 0;
+
+        let status: RouteStatus = "missing";
+        if (config.whitelist.includes(methodKey)) status = "whitelisted";
+        else if (result && !result.passed) status = "failed";
+        else if (result) status = warningCount > 0 ? "warnings" : "passed";
+
+        return {
+            method: route.method,
+            path: route.path,
+            ...(route.name && { name: route.name }),
+            ...(route.domain && { domain: route.domain }),
+            controller: route.controller,
+            handler: route.handler,
+            middleware: route.middleware,
+            routeLine: route.line,
+            ...(handler && { file: path.relative(projectPath, handler.filePath), handlerLine: handler.line }),
+            status,
+            errorCount,
+            warningCount,
+        };
+    });
+}
+
+/**
+ * Render routes as an aligned plain-text table
+ */
+export function formatRouteTable(entries: RouteListEntry[]): string {
+    const header = ["METHOD", "PATH", "HANDLER", "LOCATION", "MIDDLEWARE", "STATUS"];
+    const rows = entries.map((entry) => [
+        entry.method.toUpperCase(),
+        entry.path,
+        `${entry.controller}.${entry.handler}`,
+        entry.file ? `${entry.file}:${entry.handlerLine}` : "-",
+        entry.middleware.length > 0 ? entry.middleware.join(", ") : "-",
+        formatStatus(entry),
+    ]);
+
+    const widths = header.map((title, i) => Math.max(title.length, ...rows.map((row) => row[i].length)));
+    const lines = [header, ...rows].map((row) =>
+        row
+            .map((cell, i) => cell.padEnd(widths[i]))
+            .join("  ")
+            .trimEnd(),
+    );
+
+    return `${lines.join("\n")}\n`;
+}
+
+function formatStatus(entry: RouteListEntry): string {
+    const counts = [
+        entry.errorCount > 0 && `${entry.errorCount} error${entry.errorCount === 1 ? "" : "s"}`,
+        entry.warningCount > 0 && `${entry.warningCount} warning${entry.warningCount === 1 ? "" : "s"}`,
+    ].filter(Boolean);
+
+    return counts.length > 0 ? `${entry.status} (${counts.join(", ")})` : entry.status;
+}
+
+function matchesFilters(route: RouteDefinition, filters: RouteListFilters): boolean {
+    if (filters.controller) {
+        const wanted = filters.controller.toLowerCase().replace(/controller$/, "");
+        if (route.controller.toLowerCase().replace(/controller$/, "") !== wanted) return false;
+    }
+
+    if (filters.method && route.method !== filters.method.toLowerCase()) return false;
+
+    if (filters.path) {
+        if (!filters.path.includes("*")) return route.path.includes(filters.path);
+
+        const pattern = filters.path
+            .split("*")
+            .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+            .join(".*");
+        return new RegExp(`^${pattern}$`).test(route.path);
+    }
+
+    return true;
+}
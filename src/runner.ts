@@ -1,73 +1,506 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
+import { openCache } from "./cache.js";
+import { readRevisionFile } from "./git.js";
+import {
+    type AnalysisSession,
+    analyzeInWorkers,
+    createAnalysisSession,
+    getAppErrors,
+    getLocalImports,
+    measure,
+    measureAsync,
+    recall,
+    remember,
+} from "./parsers/analysis-session.js";
 import { analyzeController } from "./parsers/controller-analyzer.js";
-import { groupRoutesByController, parseRoutes } from "./parsers/route-parser.js";
-import type { ValidationResult, ValidatorConfig } from "./types.js";
-import { validateMethod } from "./validators/index.js";
+import { listModuleCandidates } from "./parsers/module-resolver.js";
+import { groupRoutesByControllerFile, parseRoutes, parseRoutesText } from "./parsers/route-parser.js";
+import type {
+    FileChanges,
+    MethodAnalysis,
+    RouteDefinition,
+    Rule,
+    ValidationResult,
+    ValidatorConfig,
+    Violation,
+} from "./types.js";
+import { errorResponseAppErrorsRule } from "./validators/error-response-checker.js";
+import { checkRuleSettings, getRuleSeverity, getRules, methodPasses, validateMethod } from "./validators/index.js";
+import {
+    controllerMissingRule,
+    routeHandlerMissingRule,
+    unroutedPublicMethodRule,
+} from "./validators/route-integrity-checker.js";
+import { applySuppressions } from "./validators/suppressions.js";
 
 export interface RunResult {
     totalMethods: number;
     passedMethods: number;
     failedMethods: number;
+    /** Number of violations and diagnostics reported with error severity */
+    errorCount: number;
+    /** Number of violations and diagnostics reported with warning severity */
+    warningCount: number;
     results: ValidationResult[];
     violations: ValidationResult[];
+    /** Project-level problems: missing controllers or handlers and unrouted public methods */
+    diagnostics: Violation[];
+    /** Whether every method passed and no diagnostic fails the run, with the same `strictMode` handling */
+    passed: boolean;
+}
+
+export interface RunOptions {
+    /** Session to reuse, e.g. one kept alive between runs. A new one is created when unset */
+    session?: AnalysisSession;
+    /**
+     * Only check what these changes affect: the handlers of routes on changed lines of the routes
+     * file and of controllers that changed or import a changed file
+     */
+    changes?: FileChanges;
+}
+
+/**
+ * Controllers to analyze and routes to check in a run
+ */
+interface RunPlan {
+    controllerPaths: string[];
+    /** Routes whose handlers are checked. Null when every route is */
+    selected: Set<RouteDefinition> | null;
 }
 
 /**
  * Run validation on an entire project
  */
-export function runValidation(projectPath: string, config: ValidatorConfig): RunResult {
-    // Parse routes
-    const routes = parseRoutes(projectPath, config.routesFile);
-    const routesByController = groupRoutesByController(routes);
+export function runValidation(projectPath: string, config: ValidatorConfig, options: RunOptions = {}): RunResult {
+    const session = options.session ?? createAnalysisSession(projectPath);
+    const rules = getRules(config);
+    checkRuleSettings(config, rules);
+    checkAppErrorsPath(config, rules, session);
+
+    const routes = measure(session, "routes", () => getRoutes(projectPath, config, session));
+    const { controllerPaths, selected } = planRun(projectPath, config, routes, session, options.changes);
+    const analyses = measure(session, "controllers", () => {
+        const recalled = recallAnalyses(controllerPaths, session);
+
+        return new Map(
+            controllerPaths.map((controllerPath) => {
+                const methods = recalled.get(controllerPath);
+                if (methods) return [controllerPath, methods];
+
+                const analyses = analyzeController(projectPath, controllerPath, {
+                    appErrorsPath: config.appErrorsPath,
+                    allowedResponses: config.allowedResponses,
+                    session,
+                });
+                remember(session, "controller", controllerPath, getLocalImports(session, controllerPath), [
+                    ...analyses,
+                ]);
+                return [controllerPath, analyses];
+            }),
+        );
+    });
+
+    return measure(session, "rules", () => validateProject(projectPath, config, routes, analyses, rules, selected));
+}
+
+/**
+ * Run validation with controller analysis spread over `config.workers` worker threads, or in-process
+ * when it is 1. Routes are parsed and rules run in the calling thread, so plugins are not loaded by
+ * the workers.
+ */
+export async function runValidationInWorkers(
+    projectPath: string,
+    config: ValidatorConfig,
+    options: RunOptions = {},
+): Promise<RunResult> {
+    if (config.workers <= 1) return runValidation(projectPath, config, options);
+
+    const session = options.session ?? createAnalysisSession(projectPath);
+    const rules = getRules(config);
+    checkRuleSettings(config, rules);
+    checkAppErrorsPath(config, rules, session);
+
+    const routes = measure(session, "routes", () => getRoutes(projectPath, config, session));
+    const { controllerPaths, selected } = planRun(projectPath, config, routes, session, options.changes);
+    const analyses = await measureAsync(session, "controllers", async () => {
+        const recalled = recallAnalyses(controllerPaths, session);
+        const analyzed = await analyzeInWorkers(
+            projectPath,
+            controllerPaths.filter((controllerPath) => !recalled.has(controllerPath)),
+            {
+                appErrorsPath: config.appErrorsPath,
+                allowedResponses: config.allowedResponses,
+                workers: config.workers,
+            },
+        );
+
+        for (const [controllerPath, { methods, dependencies }] of analyzed) {
+            remember(session, "controller", controllerPath, dependencies, [...methods]);
+        }
+
+        return new Map(
+            controllerPaths.map((controllerPath) => [
+                controllerPath,
+                recalled.get(controllerPath) ?? analyzed.get(controllerPath)?.methods ?? new Map(),
+            ]),
+        );
+    });
+
+    return measure(session, "rules", () => validateProject(projectPath, config, routes, analyses, rules, selected));
+}
+
+/**
+ * Reject an `appErrorsPath` that does not resolve to a module exporting AppErrors while the rule
+ * checking errorResponse() arguments against it is enabled, rather than checking them by name
+ */
+function checkAppErrorsPath(config: ValidatorConfig, rules: Rule[], session: AnalysisSession): void {
+    const rule = rules.find((r) => r.id === errorResponseAppErrorsRule.id);
+    if (!rule || getRuleSeverity(config, rule) === null || getAppErrors(session, config.appErrorsPath)) return;
+
+    throw new Error(
+        `appErrorsPath "${config.appErrorsPath}" does not resolve to a module exporting AppErrors. ` +
+            `Fix it, or turn off the "${rule.id}" rule.`,
+    );
+}
+
+/**
+ * Decide what to analyze and check: everything, or only what `changes` affect
+ */
+function planRun(
+    projectPath: string,
+    config: ValidatorConfig,
+    routes: RouteDefinition[],
+    session: AnalysisSession,
+    changes: FileChanges | undefined,
+): RunPlan {
+    const controllerPaths = getControllerPaths(projectPath, config, routes);
+    if (!changes) return { controllerPaths, selected: null };
+
+    const changedFiles = new Set(changes.files.map((file) => path.resolve(file)));
+    const affected = new Set(
+        controllerPaths.filter((controllerPath) =>
+            [controllerPath, ...getLocalImports(session, controllerPath)].some((file) =>
+                changedFiles.has(path.resolve(file)),
+            ),
+        ),
+    );
+
+    const routesFile = path.resolve(projectPath, config.routesFile);
+    const changedRoutes = changedFiles.has(routesFile)
+        ? getChangedRoutes(projectPath, config, routes, session, changes)
+        : new Set<RouteDefinition>();
+
+    const located = groupRoutesByControllerFile(projectPath, config.controllersDir, routes).flatMap(
+        ({ controllerPath, routes: controllerRoutes }) =>
+            controllerRoutes.map((route) => ({ route, controllerPath, handler: `${controllerPath}#${route.handler}` })),
+    );
+    // Deleted controllers no longer resolve, so their routes are matched by the files they would import
+    const deletedRoutes = new Set(
+        located
+            .filter(
+                ({ route, controllerPath }) =>
+                    !fs.existsSync(controllerPath) &&
+                    listControllerCandidates(projectPath, route, controllerPath, routesFile, session).some((file) =>
+                        changedFiles.has(path.resolve(file)),
+                    ),
+            )
+            .map((l) => l.route),
+    );
+    const changedHandlers = new Set(
+        located
+            .filter((l) => affected.has(l.controllerPath) || changedRoutes.has(l.route) || deletedRoutes.has(l.route))
+            .map((l) => l.handler),
+    );
+
+    // Every route of a changed handler, so its rules still see all of them
+    const selected = located.filter((l) => changedHandlers.has(l.handler));
+    const selectedPaths = new Set(selected.map((l) => l.controllerPath));
+
+    return {
+        controllerPaths: controllerPaths.filter((p) => selectedPaths.has(p) || affected.has(p)),
+        selected: new Set(selected.map((l) => l.route)),
+    };
+}
+
+/**
+ * Files a route's controller may live in: those its import points to, then the conventional location
+ */
+function listControllerCandidates(
+    projectPath: string,
+    route: RouteDefinition,
+    controllerPath: string,
+    routesFile: string,
+    session: AnalysisSession,
+): string[] {
+    const imported = route.controllerImport
+        ? listModuleCandidates(projectPath, routesFile, route.controllerImport, session.project.getCompilerOptions())
+        : [];
+
+    return [...imported, controllerPath];
+}
+
+/**
+ * Routes of a changed routes file that are new or whose handler or middleware differ from the base
+ * revision, matched by method, domain and path, so removing a group's middleware marks its routes.
+ * Without a base revision, the routes on changed lines, or every route of a new routes file.
+ */
+function getChangedRoutes(
+    projectPath: string,
+    config: ValidatorConfig,
+    routes: RouteDefinition[],
+    session: AnalysisSession,
+    changes: FileChanges,
+): Set<RouteDefinition> {
+    const routesFile = path.resolve(projectPath, config.routesFile);
+
+    if (changes.base === undefined) {
+        const changedLines = changes.lines.get(routesFile);
+        return new Set(routes.filter((route) => !changedLines || changedLines.includes(route.line)));
+    }
+
+    const text = readRevisionFile(projectPath, changes.base, routesFile);
+    const previous = new Map<string, RouteDefinition[]>();
+    for (const route of text === null ? [] : parseRoutesText(projectPath, config.routesFile, text, session)) {
+        const key = getRouteKey(route);
+        previous.set(key, [...(previous.get(key) ?? []), route]);
+    }
+
+    return new Set(
+        routes.filter((route) => !previous.get(getRouteKey(route))?.some((before) => isSameRoute(before, route))),
+    );
+}
+
+function getRouteKey(route: RouteDefinition): string {
+    return [route.method, route.domain ?? "", route.path].join(" ");
+}
 
+function isSameRoute(a: RouteDefinition, b: RouteDefinition): boolean {
+    return (
+        a.controller === b.controller &&
+        a.controllerPath === b.controllerPath &&
+        a.handler === b.handler &&
+        a.middleware.join() === b.middleware.join()
+    );
+}
+
+/**
+ * Parse the routes file, or reuse the routes parsed from its current content. Opens the session's
+ * cache when `config.cache` is enabled.
+ */
+function getRoutes(projectPath: string, config: ValidatorConfig, session: AnalysisSession): RouteDefinition[] {
+    if (config.cache && !session.cache) {
+        session.cache = openCache(projectPath, {
+            appErrorsPath: config.appErrorsPath,
+            allowedResponses: config.allowedResponses,
+        });
+    }
+
+    const routesFile = path.join(projectPath, config.routesFile);
+    const recalled = recall<RouteDefinition[]>(session, "routes", routesFile);
+
+    // Controller imports resolve differently once a resolved file is gone, and unresolved ones may
+    // resolve once their file exists
+    const isResolved = (route: RouteDefinition) =>
+        route.controllerPath ? fs.existsSync(route.controllerPath) : !route.controllerImport;
+    if (recalled?.every(isResolved)) {
+        return recalled;
+    }
+
+    const routes = parseRoutes(projectPath, config.routesFile, session);
+    remember(session, "routes", routesFile, [], routes);
+
+    return routes;
+}
+
+/**
+ * Method analyses already made for the current content of each controller and its imports
+ */
+function recallAnalyses(controllerPaths: string[], session: AnalysisSession): Map<string, Map<string, MethodAnalysis>> {
+    const recalled = new Map<string, Map<string, MethodAnalysis>>();
+
+    for (const controllerPath of controllerPaths) {
+        const methods = recall<Array<[string, MethodAnalysis]>>(session, "controller", controllerPath);
+        if (methods) recalled.set(controllerPath, new Map(methods));
+    }
+
+    return recalled;
+}
+
+/**
+ * Files to analyze: every existing controller a route points to, then the unrouted files of the
+ * controllers directory
+ */
+function getControllerPaths(projectPath: string, config: ValidatorConfig, routes: RouteDefinition[]): string[] {
+    const routed = groupRoutesByControllerFile(projectPath, config.controllersDir, routes)
+        .map((group) => group.controllerPath)
+        .filter((controllerPath) => fs.existsSync(controllerPath));
+    const resolved = new Set(routed.map((controllerPath) => path.resolve(controllerPath)));
+    const unrouted = findControllerFiles(path.join(projectPath, config.controllersDir)).filter(
+        (controllerPath) => !resolved.has(path.resolve(controllerPath)),
+    );
+
+    return [...routed, ...unrouted];
+}
+
+/**
+ * Run the rules on every routed method and collect the route integrity diagnostics, given the
+ * analyses of the files planned by `planRun()`. With `selected` routes, only their handlers are
+ * checked.
+ */
+function validateProject(
+    projectPath: string,
+    config: ValidatorConfig,
+    routes: RouteDefinition[],
+    analyses: Map<string, Map<string, MethodAnalysis>>,
+    rules: Rule[],
+    selected: Set<RouteDefinition> | null,
+): RunResult {
     const results: ValidationResult[] = [];
+    const diagnostics: Violation[] = [];
+    const routesFile = path.join(projectPath, config.routesFile);
+    const routedFiles = new Set<string>();
+
+    const report = (rule: Rule, diagnostic: Omit<Violation, "rule" | "severity">) => {
+        const severity = getRuleSeverity(config, rule);
+        if (severity) diagnostics.push({ rule: rule.id, severity, ...diagnostic });
+    };
 
     // Process each controller
-    for (const [controllerName, controllerRoutes] of routesByController) {
-        const controllerPath = resolveControllerPath(projectPath, config.controllersDir, controllerName);
+    for (const group of groupRoutesByControllerFile(projectPath, config.controllersDir, routes)) {
+        const { controller: controllerName, controllerPath, routes: controllerRoutes } = group;
+        const methodAnalyses = analyses.get(controllerPath);
+        const isChecked = (route: RouteDefinition) => !selected || selected.has(route);
 
-        if (!fs.existsSync(controllerPath)) {
-            console.warn(`Controller not found: ${controllerPath}`);
+        if (!methodAnalyses) {
+            for (const route of controllerRoutes.filter(isChecked)) {
+                const location = route.controllerImport
+                    ? `"${route.controllerImport}" does not resolve to a file`
+                    : `no file at ${path.relative(projectPath, controllerPath)}`;
+                report(controllerMissingRule, {
+                    message: `Controller ${controllerName} for ${describeRoute(route)} not found: ${location}`,
+                    line: route.line,
+                    filePath: routesFile,
+                });
+            }
             continue;
         }
 
-        const methodAnalyses = analyzeController(projectPath, controllerPath);
+        routedFiles.add(controllerPath);
+        const handlers = groupRoutesByHandler(controllerRoutes);
 
-        // Validate each route handler method
-        for (const route of controllerRoutes) {
-            const methodKey = `${controllerName}.${route.handler}`;
+        // Validate each route handler method once, with every route bound to it
+        for (const [handler, handlerRoutes] of handlers) {
+            const methodKey = `${controllerName}.${handler}`;
 
-            // Skip whitelisted methods
-            if (config.whitelist.includes(methodKey)) {
+            // Skip whitelisted methods and, when checking changes, handlers they do not affect
+            if (config.whitelist.includes(methodKey) || !handlerRoutes.some(isChecked)) {
                 continue;
             }
 
-            const analysis = methodAnalyses.get(route.handler);
+            const analysis = methodAnalyses.get(handler);
             if (!analysis) {
-                console.warn(`Method not found: ${methodKey}`);
+                for (const route of handlerRoutes) {
+                    report(routeHandlerMissingRule, {
+                        message: `${describeRoute(route)} points to ${methodKey}, which does not exist`,
+                        line: route.line,
+                        filePath: routesFile,
+                    });
+                }
                 continue;
             }
 
-            const result = validateMethod(analysis);
+            const result = validateMethod(analysis, { projectPath, config, routes: handlerRoutes }, rules);
             results.push(result);
         }
+
+        const unrouted = [...methodAnalyses.values()].filter((analysis) => !handlers.has(analysis.method));
+        diagnostics.push(...checkUnroutedMethods(unrouted, config));
+    }
+
+    // Controllers no route points to
+    for (const [controllerPath, methodAnalyses] of analyses) {
+        if (!routedFiles.has(controllerPath)) {
+            diagnostics.push(...checkUnroutedMethods([...methodAnalyses.values()], config));
+        }
     }
 
+    return summarizeResults(results, diagnostics, config);
+}
+
+/**
+ * Count the methods, violations and diagnostics of a run. Diagnostics fail it the way violations fail
+ * a method
+ */
+export function summarizeResults(
+    results: ValidationResult[],
+    diagnostics: Violation[],
+    config: ValidatorConfig,
+): RunResult {
     const violations = results.filter((r) => !r.passed);
+    const reported = [...results.flatMap((r) => r.violations), ...diagnostics];
+    const errorCount = reported.filter((v) => v.severity === "error").length;
 
     return {
         totalMethods: results.length,
         passedMethods: results.filter((r) => r.passed).length,
         failedMethods: violations.length,
+        errorCount,
+        warningCount: reported.filter((v) => v.severity === "warning").length,
         results,
         violations,
+        diagnostics,
+        passed: violations.length === 0 && methodPasses(diagnostics, config),
     };
 }
 
-function resolveControllerPath(projectPath: string, controllersDir: string, controllerName: string): string {
-    // Convert PascalCase to snake_case
-    const fileName = controllerName.replace(/([a-z])([A-Z])/g, "$1_$2").toLowerCase();
+/**
+ * Report public methods left without a route, unless whitelisted or suppressed on the method
+ */
+function checkUnroutedMethods(analyses: MethodAnalysis[], config: ValidatorConfig): Violation[] {
+    const severity = getRuleSeverity(config, unroutedPublicMethodRule);
+    if (!severity) return [];
+
+    return analyses.flatMap((analysis) => {
+        const methodKey = `${analysis.controller}.${analysis.method}`;
+        if (!analysis.isPublic || config.whitelist.includes(methodKey)) return [];
+
+        const violation: Violation = {
+            rule: unroutedPublicMethodRule.id,
+            message: `${methodKey} is public but no route points to it. Route it, make it private or remove it.`,
+            line: analysis.line,
+            severity,
+            filePath: analysis.filePath,
+        };
+        return applySuppressions(analysis, [violation]).violations;
+    });
+}
+
+/**
+ * Every TypeScript file under the controllers directory
+ */
+function findControllerFiles(controllersDir: string): string[] {
+    if (!fs.existsSync(controllersDir)) return [];
+
+    return fs
+        .readdirSync(controllersDir, { recursive: true, encoding: "utf-8" })
+        .filter((file) => file.endsWith(".ts") && !file.endsWith(".d.ts"))
+        .map((file) => path.join(controllersDir, file))
+        .sort();
+}
+
+function describeRoute(route: RouteDefinition): string {
+    return `${route.method.toUpperCase()} ${route.path}`;
+}
+
+function groupRoutesByHandler(routes: RouteDefinition[]): Map<string, RouteDefinition[]> {
+    const grouped = new Map<string, RouteDefinition[]>();
+
+    for (const route of routes) {
+        const existing = grouped.get(route.handler) || [];
+        existing.push(route);
+        grouped.set(route.handler, existing);
+    }
 
-    return path.join(projectPath, controllersDir, `${fileName}.ts`);
+    return grouped;
 }
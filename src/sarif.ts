@@ -0,0 +1,130 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { getToolVersion } from "./cache.js";
+import type { RunResult } from "./runner.js";
+import type { Severity, ValidatorConfig, Violation } from "./types.js";
+import { getRuleSeverity, getRules } from "./validators/index.js";
+
+/**
+ * Base id that result URIs are relative to. Code scanning tools resolve it to the checkout root
+ */
+const PROJECT_ROOT = "%SRCROOT%";
+
+export type SarifLevel = "error" | "warning" | "note" | "none";
+
+export interface SarifRule {
+    id: string;
+    shortDescription: { text: string };
+    helpUri?: string;
+    defaultConfiguration: { level: SarifLevel; enabled?: false };
+}
+
+export interface SarifResult {
+    ruleId: string;
+    ruleIndex?: number;
+    level: SarifLevel;
+    message: { text: string };
+    locations: Array<{
+        physicalLocation: {
+            artifactLocation: { uri: string; uriBaseId: typeof PROJECT_ROOT };
+            region: { startLine: number; startColumn: number };
+        };
+        logicalLocations?: Array<{ fullyQualifiedName: string; kind: "function" }>;
+    }>;
+}
+
+export interface SarifLog {
+    $schema: string;
+    version: "2.1.0";
+    runs: Array<{
+        tool: { driver: { name: string; version: string; rules: SarifRule[] } };
+        originalUriBaseIds: Record<typeof PROJECT_ROOT, { uri: string }>;
+        results: SarifResult[];
+    }>;
+}
+
+/**
+ * Build a SARIF 2.1.0 log of a run for code scanning tools. Every rule of the configuration is
+ * listed with its docs and configured severity, and each violation or diagnostic becomes a result
+ * located by a URI relative to the project root. Violations without a column point to the first
+ * non-blank character of their line.
+ */
+export function createSarifLog(projectPath: string, config: ValidatorConfig, result: RunResult): SarifLog {
+    const rules = getRules(config);
+    const ruleIndexes = new Map(rules.map((rule, index) => [rule.id as string, index]));
+    const lines = new Map<string, string[]>();
+
+    const toResult = (violation: Violation, fallbackPath: string, handler?: string): SarifResult => {
+        const filePath = path.resolve(violation.filePath ?? fallbackPath);
+        if (!lines.has(filePath)) {
+            lines.set(filePath, fs.existsSync(filePath) ? fs.readFileSync(filePath, "utf-8").split("\n") : []);
+        }
+        const indent = lines.get(filePath)?.[violation.line - 1]?.search(/\S/) ?? -1;
+        const ruleIndex = ruleIndexes.get(violation.rule);
+
+        return {
+            ruleId: violation.rule,
+            ...(ruleIndex !== undefined && { ruleIndex }),
+            level: toLevel(violation.severity),
+            message: { text: violation.message },
+            locations: [
+                {
+                    physicalLocation: {
+                        artifactLocation: { uri: toRelativeUri(projectPath, filePath), uriBaseId: PROJECT_ROOT },
+                        region: { startLine: violation.line, startColumn: violation.column ?? Math.max(indent, 0) + 1 },
+                    },
+                    ...(handler && { logicalLocations: [{ fullyQualifiedName: handler, kind: "function" as const }] }),
+                },
+            ],
+        };
+    };
+
+    return {
+        $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+        version: "2.1.0",
+        runs: [
+            {
+                tool: {
+                    driver: {
+                        name: "adonis-validator",
+                        version: getToolVersion(),
+                        rules: rules.map((rule) => {
+                            const severity = getRuleSeverity(config, rule);
+                            return {
+                                id: rule.id,
+                                shortDescription: { text: rule.docs.description },
+                                ...(rule.docs.url && { helpUri: rule.docs.url }),
+                                defaultConfiguration: severity
+                                    ? { level: toLevel(severity) }
+                                    : { level: "none", enabled: false },
+                            };
+                        }),
+                    },
+                },
+                originalUriBaseIds: { [PROJECT_ROOT]: { uri: pathToFileURL(`${path.resolve(projectPath)}/`).href } },
+                results: [
+                    ...result.results.flatMap((r) =>
+                        r.violations.map((v) => toResult(v, r.filePath, `${r.controller}.${r.method}`)),
+                    ),
+                    ...result.diagnostics.map((d) => toResult(d, "")),
+                ],
+            },
+        ],
+    };
+}
+
+export function formatSarif(log: SarifLog): string {
+    return `${JSON.stringify(log, null, 2)}\n`;
+}
+
+function toLevel(severity: Severity): SarifLevel {
+    return severity === "error" ? "error" : "warning";
+}
+
+/**
+ * Project-relative path as a URI reference, with forward slashes and escaped characters
+ */
+function toRelativeUri(projectPath: string, filePath: string): string {
+    return path.relative(path.resolve(projectPath), filePath).split(path.sep).map(encodeURIComponent).join("/");
+}
@@ -11,10 +11,14 @@
 export interface RouteDefinition {
     /** HTTP method (get, post, patch, put, delete, any) */
     method: HttpMethod;
-    /** Route path (e.g., "/datasets/:dataset_id") */
+    /** Route path including group prefixes (e.g., "/api/v1/datasets/:dataset_id") */
     path: string;
     /** Controller name (e.g., "DatasetsController") */
     controller: string;
+    /** Specifier the controller is imported from (e.g., "#controllers/datasets_controller") */
+    controllerImport?: string;
+    /** Absolute path of the controller file, when the import could be resolved */
+    controllerPath?: string;
     /** Method name (e.g., "show") */
     handler: string;
     /** Line number in routes.ts */
@@ -23,6 +27,12 @@ export interface RouteDefinition {
     hasPathParams: boolean;
     /** Extracted path parameter names */
     pathParams: string[];
+    /** Named middleware applied to the route, including the ones inherited from groups, outermost first */
+    middleware: string[];
+    /** Route name from `.as()`, prefixed by the names of enclosing groups */
+    name?: string;
+    /** Domain from `.domain()` on the route or an enclosing group */
+    domain?: string;
 }
 
 export type HttpMethod = "get" | "post" | "patch" | "put" | "delete" | "any";
@@ -39,14 +49,48 @@ export interface MethodAnalysis {
     filePath: string;
     /** Line number */
     line: number;
+    /** Whether the method is public and non-static, so it can be a route handler */
+    isPublic?: boolean;
     /** Whether method uses request parameter */
     usesRequest: boolean;
     /** Whether method uses params */
     usesParams: boolean;
     /** Whether validateUsing is called */
     hasValidateUsing: boolean;
+    /** `request.validateUsing()` calls */
+    validateUsingCalls?: ValidateUsingCall[];
+    /** Reads of raw request data such as `request.input()` or `request.all()` */
+    requestDataAccesses?: RequestDataAccess[];
+    /** Reads of route params through `params` or `request.param()` */
+    paramAccesses?: ParamAccess[];
     /** All return statements in the method */
     returnStatements: ReturnStatement[];
+    /** Calls sending a response through `response` outside return statements */
+    responseCalls?: ResponseCall[];
+    /** Paths leaving the method without returning a value */
+    implicitExits?: ImplicitExit[];
+    /** Throw statements in the method body */
+    throwStatements?: ThrowStatement[];
+    /** Inline and method-level suppression comments */
+    suppressions?: Suppression[];
+    /** Named schemas referenced through `$ref` by the method's schemas. Collected with the `schemas` analyzer option */
+    schemas?: Record<string, JsonSchema>;
+}
+
+/**
+ * A `// adonis-validator-disable-next-line` comment or `@adonis-validator-disable` JSDoc tag
+ */
+export interface Suppression {
+    /** "line" silences the line after the comment, "method" the whole method */
+    scope: "line" | "method";
+    /** Line the comment is on */
+    line: number;
+    /** Line silenced by a "line" suppression */
+    targetLine?: number;
+    /** Rules silenced. Empty means every rule */
+    rules: string[];
+    /** Justification written after "--" */
+    reason?: string;
 }
 
 export interface ReturnStatement {
@@ -56,8 +100,93 @@ export interface ReturnStatement {
     type: "successResponse" | "errorResponse" | "other";
     /** Whether successResponse has generic type */
     hasGenericType?: boolean;
-    /** Whether errorResponse uses AppErrors */
+    /** Whether errorResponse uses a known key of the configured AppErrors */
     usesAppErrors?: boolean;
+    /** AppErrors key passed to errorResponse. Set with usesAppErrors false when the key does not exist */
+    appErrorsKey?: string;
+    /** HTTP status declared by the AppErrors entry passed to errorResponse */
+    status?: number;
+    /** Raw text for debugging */
+    text: string;
+    /** Normalized call chain when an "other" return calls the response object (e.g. "response.status.send") */
+    callee?: string;
+    /** JSON schema of the body successResponse resolves to. Collected with the `schemas` analyzer option */
+    responseSchema?: JsonSchema;
+}
+
+/**
+ * JSON Schema (draft 2020-12, the dialect of OpenAPI 3.1)
+ */
+export interface JsonSchema {
+    type?: string | string[];
+    format?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    prefixItems?: JsonSchema[];
+    additionalProperties?: JsonSchema | boolean;
+    enum?: unknown[];
+    const?: unknown;
+    anyOf?: JsonSchema[];
+    $ref?: string;
+    [keyword: string]: unknown;
+}
+
+export interface ThrowStatement {
+    /** Line number */
+    line: number;
+    /** Raw text of the thrown expression */
+    text: string;
+    /** Constructor of `throw new X()`, or the root identifier of a factory call like `X.create()` */
+    exceptionClass?: string;
+    /** Whether the throw rethrows the error of an enclosing catch clause */
+    isRethrow: boolean;
+}
+
+export interface ValidateUsingCall {
+    /** Line number */
+    line: number;
+    /** Whether the returned promise is awaited before its result is used */
+    awaited: boolean;
+    /** Raw text of the validator argument */
+    validator?: string;
+    /** Keys of the validator's VineJS `params` schema. Unset when the validator cannot be resolved */
+    params?: string[];
+    /** JSON schema of the validated data. Collected with the `schemas` analyzer option */
+    schema?: JsonSchema;
+    /** Raw text for debugging */
+    text: string;
+}
+
+export interface RequestDataAccess {
+    /** Line number */
+    line: number;
+    /** Request method reading the data (e.g. "input") */
+    accessor: string;
+    /** Raw text for debugging */
+    text: string;
+}
+
+export interface ParamAccess {
+    /** Line number */
+    line: number;
+    /** Param read. Unset when the read cannot be resolved statically (e.g. `params[key]` or `...rest`) */
+    name?: string;
+    /** Raw text for debugging */
+    text: string;
+}
+
+export interface ImplicitExit {
+    /** Line of the bare `return;`, or of the closing brace for "fallthrough" */
+    line: number;
+    kind: "fallthrough" | "empty-return";
+}
+
+export interface ResponseCall {
+    /** Line number */
+    line: number;
+    /** Normalized call chain (e.g. "response.json") */
+    callee: string;
     /** Raw text for debugging */
     text: string;
 }
@@ -75,10 +204,117 @@ export interface ValidationResult {
 }
 
 export interface Violation {
-    rule: "validate-using" | "success-response-typed" | "error-response-app-errors";
+    rule: RuleId;
+    message: string;
+    line: number;
+    /** 1-based column. Reporters needing one fall back to the first non-blank character of the line */
+    column?: number;
+    severity: Severity;
+    /** File the violation is in, when it is not the controller file (e.g. the routes file) */
+    filePath?: string;
+}
+
+export type Severity = "error" | "warning";
+
+/**
+ * Per-rule setting in the configuration file
+ */
+export type RuleSetting = "error" | "warn" | "off";
+
+/**
+ * Identifiers of the rules shipped with the validator
+ */
+export type BuiltinRuleId =
+    | "validate-using"
+    | "success-response-typed"
+    | "error-response-app-errors"
+    | "unused-suppression"
+    | "auth-middleware"
+    | "no-raw-response"
+    | "explicit-response"
+    | "no-raw-throw"
+    | "no-unvalidated-request-data"
+    | "validator-route-params"
+    | "route-params-read"
+    | "controller-missing"
+    | "route-handler-missing"
+    | "unrouted-public-method";
+
+/**
+ * Rule identifier. Plugin rules may use any string, ideally namespaced (e.g. "acme/no-console")
+ */
+export type RuleId = BuiltinRuleId | (string & {});
+
+/**
+ * Documentation attached to a rule
+ */
+export interface RuleDocs {
+    /** One-line summary of what the rule enforces */
+    description: string;
+    /** Link to extended documentation */
+    url?: string;
+}
+
+/**
+ * A single problem reported by a rule. The rule id and severity are filled in by the runner.
+ */
+export interface RuleReport {
     message: string;
     line: number;
-    severity: "error" | "warning";
+    /** 1-based column of the reported code */
+    column?: number;
+    /** File the report points to, when it is not the controller file */
+    filePath?: string;
+    /** Overrides the rule's default severity for this report */
+    severity?: Severity;
+}
+
+/**
+ * Context passed to every rule check
+ */
+export interface RuleContext {
+    /** Absolute path to the project root */
+    projectPath: string;
+    /** Effective configuration */
+    config: ValidatorConfig;
+    /** Routes bound to the analysed method */
+    routes: RouteDefinition[];
+}
+
+/**
+ * A validation rule run against every routed controller method
+ */
+export interface Rule {
+    /** Unique rule identifier */
+    id: RuleId;
+    /** Severity used when a report does not specify one */
+    defaultSeverity: Severity;
+    docs: RuleDocs;
+    check(analysis: MethodAnalysis, context: RuleContext): RuleReport[];
+}
+
+/**
+ * A package shipping additional rules
+ */
+export interface ValidatorPlugin {
+    /** Plugin name, used in error messages */
+    name: string;
+    rules: Rule[];
+}
+
+/**
+ * Files changed in the working tree or the index, e.g. read from `git diff`
+ */
+export interface FileChanges {
+    /** Changed, added or deleted files */
+    files: string[];
+    /**
+     * Added or modified lines of each changed file, by absolute path, and the lines pure deletions
+     * follow. Files left out changed entirely
+     */
+    lines: Map<string, number[]>;
+    /** Revision the changes are relative to, to read files as they were before. Unset when unknown */
+    base?: string;
 }
 
 /**
@@ -91,12 +327,36 @@ export interface ValidatorConfig {
     controllersDir: string;
     /** Methods to skip validation (format: "ControllerName.methodName") */
     whitelist: string[];
-    /** Whether to fail on any violation */
+    /**
+     * Whether warnings fail a method, apart from the ones of rules explicitly set to "warn". When false
+     * only errors fail a method
+     */
     strictMode: boolean;
     /** Exit with error code on violations */
     failOnError: boolean;
     /** Custom AppErrors import path */
     appErrorsPath: string;
+    /**
+     * Plugins providing extra rules. Strings are module specifiers resolved from the project root
+     * and loaded with `loadPlugins()`; the module must default-export a `ValidatorPlugin`.
+     */
+    plugins: Array<string | ValidatorPlugin>;
+    /** Severity overrides keyed by rule id. Rules not listed keep their default severity */
+    rules: Record<string, RuleSetting>;
+    /** Middleware names that authenticate a route (e.g. "auth" for `middleware.auth()`) */
+    authMiddleware: string[];
+    /** Mutating routes allowed without auth ("Controller.method", route name or "POST /path") */
+    publicRoutes: string[];
+    /** Response calls allowed instead of successResponse/errorResponse, matched on the call chain prefix */
+    allowedResponses: string[];
+    /** Exception classes controller methods may throw (e.g. ones built from AppErrors) */
+    allowedExceptions: string[];
+    /** Worker threads analyzing controllers in parallel. 1 analyzes them in the main thread */
+    workers: number;
+    /** Reuse routes and controller analyses cached in node_modules/.cache/adonis-validator while their files are unchanged */
+    cache: boolean;
+    /** Baseline of accepted violations, relative to the project root. Ignored while the file does not exist */
+    baselineFile: string;
 }
 
 export const DEFAULT_CONFIG: ValidatorConfig = {
@@ -106,4 +366,13 @@ export const DEFAULT_CONFIG: ValidatorConfig = {
     strictMode: true,
     failOnError: true,
     appErrorsPath: "#lib/errors",
+    plugins: [],
+    rules: {},
+    authMiddleware: ["auth"],
+    publicRoutes: [],
+    allowedResponses: ["response.redirect", "response.stream", "response.download", "response.attachment"],
+    allowedExceptions: [],
+    workers: 1,
+    cache: false,
+    baselineFile: "adonis-validator.baseline.json",
 };
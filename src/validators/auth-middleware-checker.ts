@@ -0,0 +1,47 @@
+import * as path from "node:path";
+import type { MethodAnalysis, RouteDefinition, Rule, RuleContext, RuleReport } from "../types.js";
+
+const MUTATING_METHODS = ["post", "put", "patch", "delete", "any"];
+
+/**
+ * Check if every mutating route bound to the method goes through an auth middleware
+ */
+export function checkAuthMiddleware(analysis: MethodAnalysis, context: RuleContext): RuleReport[] {
+    const { config, projectPath, routes } = context;
+    const reports: RuleReport[] = [];
+
+    for (const route of routes) {
+        if (!MUTATING_METHODS.includes(route.method)) continue;
+        if (isPublicRoute(route, config.publicRoutes)) continue;
+        if (route.middleware.some((m) => config.authMiddleware.includes(m))) continue;
+
+        reports.push({
+            message: `${route.method.toUpperCase()} ${route.path} is not protected by auth middleware (${config.authMiddleware.join(", ")}). Add it or list the route in publicRoutes.`,
+            line: route.line,
+            filePath: path.join(projectPath, config.routesFile),
+        });
+    }
+
+    return reports;
+}
+
+/**
+ * Public routes are listed as "Controller.method", a route name or "METHOD /path"
+ */
+function isPublicRoute(route: RouteDefinition, publicRoutes: string[]): boolean {
+    return publicRoutes.some(
+        (entry) =>
+            entry === `${route.controller}.${route.handler}` ||
+            entry === route.name ||
+            entry.toLowerCase() === `${route.method} ${route.path}`,
+    );
+}
+
+export const authMiddlewareRule: Rule = {
+    id: "auth-middleware",
+    defaultSeverity: "error",
+    docs: {
+        description: "POST, PUT, PATCH and DELETE routes must use an auth middleware unless listed as public",
+    },
+    check: checkAuthMiddleware,
+};
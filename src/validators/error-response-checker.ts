@@ -1,4 +1,4 @@
-import type { MethodAnalysis, Violation } from "../types.js";
+import type { MethodAnalysis, Rule, Violation } from "../types.js";
 
 /**
  * Check if all errorResponse calls use AppErrors constants
@@ -7,15 +7,26 @@ export function checkErrorResponse(analysis: MethodAnalysis): Violation[] {
     const violations: Violation[] = [];
 
     for (const ret of analysis.returnStatements) {
-        if (ret.type === "errorResponse" && !ret.usesAppErrors) {
-            violations.push({
-                rule: "error-response-app-errors",
-                message: `errorResponse() must use AppErrors constants. Found: ${ret.text.substring(0, 50)}...`,
-                line: ret.line,
-                severity: "error",
-            });
-        }
+        if (ret.type !== "errorResponse" || ret.usesAppErrors) continue;
+
+        violations.push({
+            rule: "error-response-app-errors",
+            message: ret.appErrorsKey
+                ? `Unknown AppErrors key '${ret.appErrorsKey}'. Use one of the keys exported by AppErrors.`
+                : `errorResponse() must use AppErrors constants. Found: ${ret.text.substring(0, 50)}...`,
+            line: ret.line,
+            severity: "error",
+        });
     }
 
     return violations;
 }
+
+export const errorResponseAppErrorsRule: Rule = {
+    id: "error-response-app-errors",
+    defaultSeverity: "error",
+    docs: {
+        description: "errorResponse() calls must use AppErrors constants",
+    },
+    check: checkErrorResponse,
+};
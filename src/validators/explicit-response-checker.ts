@@ -0,0 +1,31 @@
+import type { MethodAnalysis, Rule, Violation } from "../types.js";
+
+/**
+ * Check that no path leaves the method without returning a success or error response
+ */
+export function checkExplicitResponse(analysis: MethodAnalysis): Violation[] {
+    const violations: Violation[] = [];
+
+    for (const exit of analysis.implicitExits ?? []) {
+        violations.push({
+            rule: "explicit-response",
+            message:
+                exit.kind === "fallthrough"
+                    ? "A path reaches the end of the method without a response. End it with this.successResponse<Type>(), this.errorResponse() or a throw."
+                    : "Bare 'return' sends no response. Return this.successResponse<Type>() or this.errorResponse() instead.",
+            line: exit.line,
+            severity: "error",
+        });
+    }
+
+    return violations;
+}
+
+export const explicitResponseRule: Rule = {
+    id: "explicit-response",
+    defaultSeverity: "error",
+    docs: {
+        description: "Every path through a controller method must end in a response or a throw",
+    },
+    check: checkExplicitResponse,
+};
@@ -1,25 +1,163 @@
-import type { MethodAnalysis, ValidationResult } from "../types.js";
-import { checkErrorResponse } from "./error-response-checker.js";
-import { checkSuccessResponse } from "./success-response-checker.js";
-import { checkValidateUsing } from "./validate-using-checker.js";
+import {
+    DEFAULT_CONFIG,
+    type MethodAnalysis,
+    type Rule,
+    type RuleContext,
+    type RuleSetting,
+    type Severity,
+    type ValidationResult,
+    type ValidatorConfig,
+    type ValidatorPlugin,
+    type Violation,
+} from "../types.js";
+import { authMiddlewareRule } from "./auth-middleware-checker.js";
+import { errorResponseAppErrorsRule } from "./error-response-checker.js";
+import { explicitResponseRule } from "./explicit-response-checker.js";
+import { rawResponseRule } from "./raw-response-checker.js";
+import { rawThrowRule } from "./raw-throw-checker.js";
+import { requestDataRule } from "./request-data-checker.js";
+import { controllerMissingRule, routeHandlerMissingRule, unroutedPublicMethodRule } from "./route-integrity-checker.js";
+import { routeParamsReadRule, validatorRouteParamsRule } from "./route-params-checker.js";
+import { successResponseTypedRule } from "./success-response-checker.js";
+import { applySuppressions, describeUnusedSuppression, unusedSuppressionRule } from "./suppressions.js";
+import { validateUsingRule } from "./validate-using-checker.js";
+
+/**
+ * Rules shipped with the validator, in execution order
+ */
+export const builtinRules: Rule[] = [
+    validateUsingRule,
+    requestDataRule,
+    validatorRouteParamsRule,
+    routeParamsReadRule,
+    successResponseTypedRule,
+    errorResponseAppErrorsRule,
+    rawResponseRule,
+    explicitResponseRule,
+    rawThrowRule,
+    authMiddlewareRule,
+    controllerMissingRule,
+    routeHandlerMissingRule,
+    unroutedPublicMethodRule,
+    unusedSuppressionRule,
+];
+
+/**
+ * Identity helper giving plugin authors type checking on rule objects
+ */
+export function defineRule(rule: Rule): Rule {
+    return rule;
+}
+
+/**
+ * Identity helper giving plugin authors type checking on plugin objects
+ */
+export function definePlugin(plugin: ValidatorPlugin): ValidatorPlugin {
+    return plugin;
+}
+
+/**
+ * Collect built-in rules and the rules of every loaded plugin
+ */
+export function getRules(config: ValidatorConfig): Rule[] {
+    const rules = [...builtinRules];
+    const ids = new Set(rules.map((r) => r.id));
+
+    for (const plugin of config.plugins) {
+        if (typeof plugin === "string") {
+            throw new Error(`Plugin "${plugin}" has not been loaded. Call loadPlugins() before running validation.`);
+        }
+
+        for (const rule of plugin.rules) {
+            if (ids.has(rule.id)) {
+                throw new Error(`Plugin "${plugin.name}" registers duplicate rule "${rule.id}"`);
+            }
+            ids.add(rule.id);
+            rules.push(rule);
+        }
+    }
+
+    return rules;
+}
+
+const RULE_SETTINGS: RuleSetting[] = ["error", "warn", "off"];
+
+/**
+ * Ensure every entry of the `rules` map targets a known rule with a valid setting
+ */
+export function checkRuleSettings(config: ValidatorConfig, rules: Rule[]): void {
+    const ids = new Set(rules.map((r) => r.id));
+
+    for (const [id, setting] of Object.entries(config.rules)) {
+        if (!ids.has(id)) {
+            throw new Error(`Unknown rule "${id}" in rules configuration`);
+        }
+        if (!RULE_SETTINGS.includes(setting)) {
+            throw new Error(
+                `Invalid setting "${setting}" for rule "${id}". Expected one of: ${RULE_SETTINGS.join(", ")}`,
+            );
+        }
+    }
+}
+
+/**
+ * Resolve the effective severity of a rule, or null when the rule is turned off
+ */
+export function getRuleSeverity(config: ValidatorConfig, rule: Rule): Severity | null {
+    const configured = getConfiguredSeverity(config, rule.id);
+    return configured === undefined ? rule.defaultSeverity : configured;
+}
+
+/**
+ * Resolve the severity configured for a rule, or null when the rule is turned off
+ */
+function getConfiguredSeverity(config: ValidatorConfig, ruleId: string): Severity | null | undefined {
+    const setting = config.rules[ruleId];
+    if (setting === "off") return null;
+    if (setting === "warn") return "warning";
+    return setting;
+}
 
 /**
  * Run all validation checks on a method
  */
-export function validateMethod(analysis: MethodAnalysis): ValidationResult {
-    const violations = [];
+export function validateMethod(
+    analysis: MethodAnalysis,
+    context: RuleContext = { projectPath: ".", config: DEFAULT_CONFIG, routes: [] },
+    rules: Rule[] = getRules(context.config),
+): ValidationResult {
+    const reported: Violation[] = [];
+
+    for (const rule of rules) {
+        const configuredSeverity = getConfiguredSeverity(context.config, rule.id);
+        if (configuredSeverity === null) continue;
 
-    // Check validateUsing
-    const validateUsingViolation = checkValidateUsing(analysis);
-    if (validateUsingViolation) {
-        violations.push(validateUsingViolation);
+        for (const report of rule.check(analysis, context)) {
+            reported.push({
+                rule: rule.id,
+                message: report.message,
+                line: report.line,
+                ...(report.column && { column: report.column }),
+                severity: configuredSeverity ?? report.severity ?? rule.defaultSeverity,
+                ...(report.filePath && { filePath: report.filePath }),
+            });
+        }
     }
 
-    // Check successResponse typing
-    violations.push(...checkSuccessResponse(analysis));
+    // Drop suppressed violations, then flag suppression comments that silenced nothing
+    const { violations, unused } = applySuppressions(analysis, reported);
+    const unusedSeverity = getConfiguredSeverity(context.config, unusedSuppressionRule.id);
 
-    // Check errorResponse AppErrors usage
-    violations.push(...checkErrorResponse(analysis));
+    if (unusedSeverity !== null) {
+        for (const suppression of unused) {
+            violations.push({
+                rule: unusedSuppressionRule.id,
+                message: describeUnusedSuppression(suppression),
+                line: suppression.line,
+                severity: unusedSeverity ?? unusedSuppressionRule.defaultSeverity,
+            });
+        }
+    }
 
     return {
         controller: analysis.controller,
@@ -27,6 +165,14 @@ export function validateMethod(analysis: MethodAnalysis): ValidationResult {
         filePath: analysis.filePath,
         line: analysis.line,
         violations,
-        passed: violations.length === 0,
+        passed: methodPasses(violations, context.config),
     };
 }
+
+/**
+ * Whether a method with these violations passes. Errors fail it, and with `strictMode` so do warnings,
+ * except the ones of rules explicitly set to "warn", which never fail a method
+ */
+export function methodPasses(violations: Violation[], config: ValidatorConfig): boolean {
+    return !violations.some((v) => v.severity === "error" || (config.strictMode && config.rules[v.rule] !== "warn"));
+}
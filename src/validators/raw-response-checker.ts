@@ -0,0 +1,43 @@
+import { isAllowedResponse } from "../parsers/controller-analyzer.js";
+import type { MethodAnalysis, Rule, RuleContext, Violation } from "../types.js";
+
+/**
+ * Check that every response goes through successResponse or errorResponse
+ */
+export function checkRawResponse(analysis: MethodAnalysis, context: RuleContext): Violation[] {
+    const violations: Violation[] = [];
+    const { allowedResponses } = context.config;
+
+    for (const ret of analysis.returnStatements) {
+        if (ret.type !== "other" || isAllowedResponse(ret.callee, allowedResponses)) continue;
+
+        violations.push({
+            rule: "no-raw-response",
+            message: `Return value must be this.successResponse<Type>() or this.errorResponse(). Found: ${ret.text.substring(0, 50)}`,
+            line: ret.line,
+            severity: "error",
+        });
+    }
+
+    for (const call of analysis.responseCalls ?? []) {
+        if (isAllowedResponse(call.callee, allowedResponses)) continue;
+
+        violations.push({
+            rule: "no-raw-response",
+            message: `${call.callee}() bypasses the response helpers. Return this.successResponse<Type>() or this.errorResponse() instead.`,
+            line: call.line,
+            severity: "error",
+        });
+    }
+
+    return violations;
+}
+
+export const rawResponseRule: Rule = {
+    id: "no-raw-response",
+    defaultSeverity: "error",
+    docs: {
+        description: "Methods must respond through successResponse/errorResponse, not raw objects or response.json()",
+    },
+    check: checkRawResponse,
+};
@@ -0,0 +1,34 @@
+import type { MethodAnalysis, Rule, RuleContext, Violation } from "../types.js";
+
+/**
+ * Check that methods only throw configured exception classes
+ */
+export function checkRawThrow(analysis: MethodAnalysis, context: RuleContext): Violation[] {
+    const violations: Violation[] = [];
+    const { allowedExceptions } = context.config;
+
+    for (const statement of analysis.throwStatements ?? []) {
+        // Rethrowing a caught error keeps whatever shape it already had
+        if (statement.isRethrow) continue;
+        if (statement.exceptionClass && allowedExceptions.includes(statement.exceptionClass)) continue;
+
+        const allowed = allowedExceptions.length > 0 ? allowedExceptions.join(", ") : "none configured";
+        violations.push({
+            rule: "no-raw-throw",
+            message: `Throw an allowed exception (${allowed}) or return this.errorResponse(AppErrors.X) instead. Found: throw ${statement.text.substring(0, 50)}`,
+            line: statement.line,
+            severity: "error",
+        });
+    }
+
+    return violations;
+}
+
+export const rawThrowRule: Rule = {
+    id: "no-raw-throw",
+    defaultSeverity: "error",
+    docs: {
+        description: "Controller methods may only throw the exception classes listed in allowedExceptions",
+    },
+    check: checkRawThrow,
+};
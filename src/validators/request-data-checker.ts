@@ -0,0 +1,39 @@
+import type { MethodAnalysis, Rule, Violation } from "../types.js";
+
+/**
+ * Check that request data is only read through an awaited validateUsing() result
+ */
+export function checkRequestData(analysis: MethodAnalysis): Violation[] {
+    const violations: Violation[] = [];
+
+    for (const access of analysis.requestDataAccesses ?? []) {
+        violations.push({
+            rule: "no-unvalidated-request-data",
+            message: `Read request data from the result of request.validateUsing() instead of request.${access.accessor}(). Found: ${access.text.substring(0, 50)}`,
+            line: access.line,
+            severity: "error",
+        });
+    }
+
+    for (const call of analysis.validateUsingCalls ?? []) {
+        if (call.awaited) continue;
+
+        violations.push({
+            rule: "no-unvalidated-request-data",
+            message: `Await request.validateUsing() before using its result. Found: ${call.text.substring(0, 50)}`,
+            line: call.line,
+            severity: "error",
+        });
+    }
+
+    return violations;
+}
+
+export const requestDataRule: Rule = {
+    id: "no-unvalidated-request-data",
+    defaultSeverity: "error",
+    docs: {
+        description: "Request data must only be read from the awaited result of request.validateUsing()",
+    },
+    check: checkRequestData,
+};
@@ -0,0 +1,39 @@
+import type { Rule } from "../types.js";
+
+/**
+ * Reports routes whose controller file cannot be found. Like the other route integrity rules it
+ * looks at the project rather than one method, so `runValidation()` produces the reports.
+ */
+export const controllerMissingRule: Rule = {
+    id: "controller-missing",
+    defaultSeverity: "error",
+    docs: {
+        description: "Every controller referenced by a route must exist",
+    },
+    check: () => [],
+};
+
+/**
+ * Reports routes bound to a method their controller does not define
+ */
+export const routeHandlerMissingRule: Rule = {
+    id: "route-handler-missing",
+    defaultSeverity: "error",
+    docs: {
+        description: "Every route handler must be a method of its controller",
+    },
+    check: () => [],
+};
+
+/**
+ * Reports public controller methods that no route points to, including every method of a
+ * controller that is never routed
+ */
+export const unroutedPublicMethodRule: Rule = {
+    id: "unrouted-public-method",
+    defaultSeverity: "warning",
+    docs: {
+        description: "Public controller methods must be bound to a route",
+    },
+    check: () => [],
+};
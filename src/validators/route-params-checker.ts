@@ -0,0 +1,106 @@
+import type { MethodAnalysis, Rule, RuleContext, RuleReport } from "../types.js";
+
+/**
+ * Check that the `params` schema of the method's validators matches the path params of its routes.
+ *
+ * Route params are only required in the schema when the method reads params, and the check is
+ * skipped when a validator cannot be resolved.
+ */
+export function checkValidatorRouteParams(analysis: MethodAnalysis, context: RuleContext): RuleReport[] {
+    const calls = analysis.validateUsingCalls ?? [];
+    if (calls.length === 0 || calls.some((call) => !call.params)) return [];
+
+    const reports: RuleReport[] = [];
+    const validated = new Set(calls.flatMap((call) => call.params ?? []));
+    const validators = calls.map((call) => call.validator).join(", ");
+
+    for (const route of context.routes) {
+        const routeLabel = `${route.method.toUpperCase()} ${route.path}`;
+
+        if (analysis.usesParams) {
+            for (const param of route.pathParams) {
+                if (validated.has(param)) continue;
+
+                reports.push({
+                    message: `Route param '${param}' of ${routeLabel} is not validated. Add it to the params schema of ${validators}.`,
+                    line: calls[0].line,
+                });
+            }
+        }
+
+        for (const call of calls) {
+            for (const param of call.params ?? []) {
+                if (route.pathParams.includes(param)) continue;
+
+                reports.push({
+                    message: `Param '${param}' validated by ${call.validator} does not exist in the path of ${routeLabel}.`,
+                    line: call.line,
+                });
+            }
+        }
+    }
+
+    return reports;
+}
+
+export const validatorRouteParamsRule: Rule = {
+    id: "validator-route-params",
+    defaultSeverity: "error",
+    docs: {
+        description: "The params schema of a method's validator must match the path params of its routes",
+    },
+    check: checkValidatorRouteParams,
+};
+
+/**
+ * Check that the params a method reads are declared by every route bound to it, and that it reads
+ * every param its routes declare.
+ *
+ * Params validated through `request.validateUsing()` count as read. Unused params are not reported
+ * when a read cannot be resolved to a name.
+ */
+export function checkRouteParamsRead(analysis: MethodAnalysis, context: RuleContext): RuleReport[] {
+    const reports: RuleReport[] = [];
+    const accesses = analysis.paramAccesses ?? [];
+    const calls = analysis.validateUsingCalls ?? [];
+
+    const resolved = accesses.every((a) => a.name !== undefined) && calls.every((c) => c.params);
+    const read = new Set([...accesses.map((a) => a.name), ...calls.flatMap((c) => c.params ?? [])]);
+
+    for (const route of context.routes) {
+        const routeLabel = `${route.method.toUpperCase()} ${route.path}`;
+
+        for (const access of accesses) {
+            if (access.name === undefined || route.pathParams.includes(access.name)) continue;
+
+            reports.push({
+                message: `Param '${access.name}' is not declared by ${routeLabel}. Found: ${access.text.substring(0, 50)}`,
+                line: access.line,
+                severity: "error",
+            });
+        }
+
+        if (!resolved) continue;
+
+        for (const param of route.pathParams) {
+            if (read.has(param)) continue;
+
+            reports.push({
+                message: `Route param '${param}' of ${routeLabel} is never read by ${analysis.controller}.${analysis.method}.`,
+                line: analysis.line,
+                severity: "warning",
+            });
+        }
+    }
+
+    return reports;
+}
+
+export const routeParamsReadRule: Rule = {
+    id: "route-params-read",
+    defaultSeverity: "error",
+    docs: {
+        description: "Methods must only read params declared by their routes, and should read all of them",
+    },
+    check: checkRouteParamsRead,
+};
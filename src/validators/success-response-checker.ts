@@ -1,4 +1,4 @@
-import type { MethodAnalysis, Violation } from "../types.js";
+import type { MethodAnalysis, Rule, Violation } from "../types.js";
 
 /**
  * Check if all successResponse calls have generic type parameters
@@ -20,3 +20,12 @@ export function checkSuccessResponse(analysis: MethodAnalysis): Violation[] {
 
     return violations;
 }
+
+export const successResponseTypedRule: Rule = {
+    id: "success-response-typed",
+    defaultSeverity: "error",
+    docs: {
+        description: "successResponse() calls must declare their payload type with a generic parameter",
+    },
+    check: checkSuccessResponse,
+};
@@ -0,0 +1,54 @@
+import type { MethodAnalysis, Rule, Suppression, Violation } from "../types.js";
+
+/**
+ * Reports suppression comments that no longer silence anything. The reports are produced by
+ * `applySuppressions()` once every other rule has run, so `check` itself has nothing to do.
+ */
+export const unusedSuppressionRule: Rule = {
+    id: "unused-suppression",
+    defaultSeverity: "warning",
+    docs: {
+        description: "Suppression comments must silence at least one violation",
+    },
+    check: () => [],
+};
+
+/**
+ * Drop the violations silenced by the method's suppression comments and list the comments left unused
+ */
+export function applySuppressions(
+    analysis: MethodAnalysis,
+    violations: Violation[],
+): { violations: Violation[]; unused: Suppression[] } {
+    const suppressions = analysis.suppressions ?? [];
+    const used = new Set<Suppression>();
+
+    const kept = violations.filter((violation) => {
+        const suppression = suppressions.find((s) => suppresses(s, violation));
+        if (!suppression) return true;
+
+        used.add(suppression);
+        return false;
+    });
+
+    return {
+        violations: kept,
+        unused: suppressions.filter((s) => !used.has(s)),
+    };
+}
+
+function suppresses(suppression: Suppression, violation: Violation): boolean {
+    if (suppression.rules.length > 0 && !suppression.rules.includes(violation.rule)) {
+        return false;
+    }
+
+    // Line suppressions only apply to lines of the controller file
+    return suppression.scope === "method" || (!violation.filePath && suppression.targetLine === violation.line);
+}
+
+export function describeUnusedSuppression(suppression: Suppression): string {
+    const target = suppression.rules.length > 0 ? suppression.rules.join(", ") : "all rules";
+    const scope = suppression.scope === "method" ? "this method" : `line ${suppression.targetLine}`;
+
+    return `Unused suppression for ${target}: no violation reported on ${scope}. Remove the comment.`;
+}
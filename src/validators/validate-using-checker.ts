@@ -1,4 +1,4 @@
-import type { MethodAnalysis, Violation } from "../types.js";
+import type { MethodAnalysis, Rule, Violation } from "../types.js";
 
 /**
  * Check if method should have validateUsing and if it does
@@ -29,3 +29,15 @@ export function checkValidateUsing(analysis: MethodAnalysis): Violation | null {
 
     return null;
 }
+
+export const validateUsingRule: Rule = {
+    id: "validate-using",
+    defaultSeverity: "error",
+    docs: {
+        description: "Methods using request data or route params must validate them with request.validateUsing()",
+    },
+    check(analysis) {
+        const violation = checkValidateUsing(analysis);
+        return violation ? [violation] : [];
+    },
+};
@@ -0,0 +1,175 @@
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { type AnalysisSession, createAnalysisSession, invalidateFiles } from "./parsers/analysis-session.js";
+import { type RunResult, runValidationInWorkers } from "./runner.js";
+import type { ValidatorConfig, Violation } from "./types.js";
+
+/**
+ * Time to wait for more changes before re-running, so saving several files triggers one run
+ */
+const DEBOUNCE_MS = 100;
+
+/**
+ * A violation or diagnostic with the method it was reported on
+ */
+export interface ReportedViolation extends Violation {
+    /** `Controller.method` of the violation. Unset for route diagnostics */
+    handler?: string;
+    filePath: string;
+}
+
+/**
+ * Violations that appeared or disappeared between two runs
+ */
+export interface RunDiff {
+    added: ReportedViolation[];
+    fixed: ReportedViolation[];
+}
+
+export interface WatchRun {
+    result: RunResult;
+    /** Changes from the previous run. Unset on the first run */
+    diff?: RunDiff;
+    /** Files whose change triggered the run. Empty on the first run */
+    changedFiles: string[];
+    session: AnalysisSession;
+}
+
+export interface WatchHandlers {
+    onRun(run: WatchRun): void;
+    /** Called when a run fails. Without it the run rejects with the error */
+    onError?(error: unknown): void;
+}
+
+export interface ValidationWatcher {
+    close(): void;
+}
+
+/**
+ * Validate the project, then validate again whenever a file under the controllers directory, a file
+ * imported by a controller (validators, base controllers...) or the routes file changes. The session
+ * stays alive between runs, so only the changed controllers and the ones importing a changed file
+ * are analyzed again, in `config.workers` worker threads when it is above 1. Runs never overlap: changes
+ * made during a run are picked up by the next one.
+ */
+export function watchValidation(
+    projectPath: string,
+    config: ValidatorConfig,
+    handlers: WatchHandlers,
+    session: AnalysisSession = createAnalysisSession(projectPath),
+): ValidationWatcher {
+    const watchers = new Map<string, fs.FSWatcher>();
+    const pending = new Set<string>();
+    let previous: RunResult | undefined;
+    let timer: NodeJS.Timeout | undefined;
+    let queue = Promise.resolve();
+    let closed = false;
+
+    // Directories are watched one by one: recursive watching misses replaced files on Linux
+    const watch = (directory: string) => {
+        if (watchers.has(directory) || !fs.existsSync(directory)) return;
+
+        const watcher = fs.watch(directory, (_event, fileName) => {
+            if (!fileName?.endsWith(".ts")) return;
+
+            pending.add(path.resolve(directory, fileName));
+            clearTimeout(timer);
+            timer = setTimeout(schedule, DEBOUNCE_MS);
+        });
+        watchers.set(directory, watcher);
+    };
+
+    const run = async () => {
+        if (closed) return;
+
+        const changedFiles = [...pending];
+        pending.clear();
+        if (changedFiles.length > 0) invalidateFiles(session, changedFiles);
+
+        session.timings.clear();
+        try {
+            const result = await runValidationInWorkers(projectPath, config, { session });
+            handlers.onRun({ result, ...(previous && { diff: diffResults(previous, result) }), changedFiles, session });
+            previous = result;
+        } catch (error) {
+            if (!handlers.onError) throw error;
+            handlers.onError(error);
+        }
+
+        // Folders may have been added, and controllers may import files from folders not watched yet
+        const controllersDir = path.resolve(projectPath, config.controllersDir);
+        for (const directory of [controllersDir, ...listDirectories(controllersDir)]) watch(directory);
+        for (const entry of session.memo.values()) {
+            for (const file of entry.files) watch(path.dirname(file));
+        }
+    };
+
+    const schedule = () => {
+        queue = queue.then(run);
+    };
+
+    watch(path.dirname(path.resolve(projectPath, config.routesFile)));
+    schedule();
+
+    return {
+        close() {
+            closed = true;
+            clearTimeout(timer);
+            for (const watcher of watchers.values()) watcher.close();
+        },
+    };
+}
+
+function listDirectories(directory: string): string[] {
+    if (!fs.existsSync(directory)) return [];
+
+    return fs
+        .readdirSync(directory, { recursive: true, withFileTypes: true })
+        .filter((entry) => entry.isDirectory())
+        .map((entry) => path.join(entry.parentPath, entry.name));
+}
+
+/**
+ * Compare the violations and diagnostics of two runs, ignoring line shifts
+ */
+export function diffResults(previous: RunResult, current: RunResult): RunDiff {
+    const before = listViolations(previous);
+    const after = listViolations(current);
+
+    return { added: subtract(after, before), fixed: subtract(before, after) };
+}
+
+/**
+ * Violations of `list` left once each one of `other` has cancelled out an identical one
+ */
+function subtract(list: ReportedViolation[], other: ReportedViolation[]): ReportedViolation[] {
+    const counts = new Map<string, number>();
+    for (const violation of other) {
+        const key = getViolationKey(violation);
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+
+    return list.filter((violation) => {
+        const key = getViolationKey(violation);
+        const count = counts.get(key) ?? 0;
+        if (count > 0) counts.set(key, count - 1);
+        return count === 0;
+    });
+}
+
+function listViolations(result: RunResult): ReportedViolation[] {
+    return [
+        ...result.results.flatMap((r) =>
+            r.violations.map((v) => ({
+                ...v,
+                handler: `${r.controller}.${r.method}`,
+                filePath: v.filePath ?? r.filePath,
+            })),
+        ),
+        ...result.diagnostics.map((d) => ({ ...d, filePath: d.filePath ?? "" })),
+    ];
+}
+
+function getViolationKey(violation: ReportedViolation): string {
+    return [violation.rule, violation.severity, violation.filePath, violation.handler, violation.message].join("\0");
+}
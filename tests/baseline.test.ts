@@ -0,0 +1,115 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { applyBaseline, createBaseline, pruneBaseline, readBaseline, writeBaseline } from "../src/baseline.js";
+import { summarizeResults } from "../src/runner.js";
+import { DEFAULT_CONFIG, type ValidationResult, type Violation } from "../src/types.js";
+
+describe("baseline", () => {
+    let projectPath: string;
+    let controllerPath: string;
+
+    const rawThrow = (line: number): Violation => ({
+        rule: "no-raw-throw",
+        message: "Raw throw",
+        line,
+        severity: "error",
+    });
+    const createRun = (violations: Violation[], diagnostics: Violation[] = []) => {
+        const result: ValidationResult = {
+            controller: "UsersController",
+            method: "store",
+            filePath: controllerPath,
+            line: 2,
+            violations,
+            passed: violations.length === 0,
+        };
+        return summarizeResults([result], diagnostics, DEFAULT_CONFIG);
+    };
+
+    beforeEach(() => {
+        projectPath = fs.mkdtempSync(path.join(os.tmpdir(), "adonis-validator-baseline-"));
+        controllerPath = path.join(projectPath, "app/controllers/users_controller.ts");
+        fs.mkdirSync(path.dirname(controllerPath), { recursive: true });
+        fs.writeFileSync(
+            controllerPath,
+            [
+                "export default class UsersController {",
+                "    async store() {",
+                '        throw   new Error("x")',
+                "    }",
+                "}",
+            ].join("\n"),
+        );
+    });
+
+    afterEach(() => {
+        fs.rmSync(projectPath, { recursive: true, force: true });
+    });
+
+    it("should fingerprint violations with their handler and normalized source line", () => {
+        const baseline = createBaseline(projectPath, createRun([rawThrow(3)]));
+
+        expect(baseline).toEqual({
+            version: 1,
+            violations: [
+                {
+                    rule: "no-raw-throw",
+                    file: "app/controllers/users_controller.ts",
+                    controller: "UsersController",
+                    method: "store",
+                    snippet: 'throw new Error("x")',
+                },
+            ],
+        });
+    });
+
+    it("should accept baselined violations after lines shift and report new ones", () => {
+        const baseline = createBaseline(projectPath, createRun([rawThrow(3)]));
+        fs.writeFileSync(controllerPath, `// header\n\n${fs.readFileSync(controllerPath, "utf-8")}`);
+
+        const shifted = applyBaseline(projectPath, DEFAULT_CONFIG, createRun([rawThrow(5)]), baseline);
+        expect(shifted.baselined).toBe(1);
+        expect(shifted.fixed).toEqual([]);
+        expect(shifted.result).toMatchObject({ passed: true, errorCount: 0, failedMethods: 0 });
+        expect(shifted.result.results[0]).toMatchObject({ violations: [], passed: true });
+
+        // A second identical violation is new
+        const duplicated = applyBaseline(projectPath, DEFAULT_CONFIG, createRun([rawThrow(5), rawThrow(5)]), baseline);
+        expect(duplicated.result).toMatchObject({ passed: false, errorCount: 1 });
+    });
+
+    it("should list fixed entries and prune them", () => {
+        const missingHandler: Violation = {
+            rule: "route-handler-missing",
+            message: "GET /users points to UsersController.index, which does not exist",
+            line: 1,
+            severity: "error",
+            filePath: controllerPath,
+        };
+        const baseline = createBaseline(projectPath, createRun([rawThrow(3)], [missingHandler]));
+        const { fixed, result } = applyBaseline(projectPath, DEFAULT_CONFIG, createRun([], [missingHandler]), baseline);
+
+        expect(result.diagnostics).toEqual([]);
+        expect(fixed).toEqual([expect.objectContaining({ rule: "no-raw-throw", method: "store" })]);
+        expect(pruneBaseline(baseline, fixed).violations).toEqual([
+            expect.objectContaining({
+                rule: "route-handler-missing",
+                snippet: "export default class UsersController {",
+            }),
+        ]);
+    });
+
+    it("should write and read baseline files", () => {
+        const baselinePath = path.join(projectPath, "adonis-validator.baseline.json");
+        const baseline = createBaseline(projectPath, createRun([rawThrow(3)]));
+
+        expect(readBaseline(baselinePath)).toBeNull();
+        writeBaseline(baselinePath, baseline);
+        expect(readBaseline(baselinePath)).toEqual(baseline);
+
+        fs.writeFileSync(baselinePath, JSON.stringify({ version: 0, violations: [] }));
+        expect(() => readBaseline(baselinePath)).toThrow(/Unsupported baseline file/);
+    });
+});
@@ -0,0 +1,57 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { CACHE_DIRECTORY, openCache, readCache, writeCache } from "../src/cache.js";
+
+describe("analysis cache", () => {
+    let projectPath: string;
+    let controllerPath: string;
+    let validatorPath: string;
+
+    beforeEach(() => {
+        projectPath = fs.mkdtempSync(path.join(os.tmpdir(), "adonis-validator-cache-"));
+        controllerPath = path.join(projectPath, "users_controller.ts");
+        validatorPath = path.join(projectPath, "user.ts");
+        fs.writeFileSync(path.join(projectPath, "tsconfig.json"), "{}");
+        fs.writeFileSync(controllerPath, "export default class UsersController {}");
+        fs.writeFileSync(validatorPath, "export const userValidator = null");
+    });
+
+    afterEach(() => {
+        fs.rmSync(projectPath, { recursive: true, force: true });
+    });
+
+    it("should reuse entries while the file and its dependencies are unchanged", () => {
+        writeCache(openCache(projectPath, {}), "controller", controllerPath, [validatorPath], ["data"]);
+
+        const cache = openCache(projectPath, {});
+        expect(readCache(cache, "controller", controllerPath)).toEqual({
+            files: [controllerPath, validatorPath],
+            data: ["data"],
+        });
+        expect(readCache(cache, "routes", controllerPath)).toBeNull();
+        expect([cache.hits, cache.misses]).toEqual([1, 1]);
+        expect(fs.existsSync(path.join(projectPath, CACHE_DIRECTORY))).toBe(true);
+    });
+
+    it("should invalidate entries when a dependency changes", () => {
+        writeCache(openCache(projectPath, {}), "controller", controllerPath, [validatorPath], ["data"]);
+        fs.writeFileSync(validatorPath, "export const userValidator = undefined");
+
+        expect(readCache(openCache(projectPath, {}), "controller", controllerPath)).toBeNull();
+    });
+
+    it("should invalidate entries when the options or tsconfig change", () => {
+        writeCache(openCache(projectPath, { appErrorsPath: "#lib/errors" }), "controller", controllerPath, [], 1);
+
+        expect(
+            readCache(openCache(projectPath, { appErrorsPath: "#app/errors" }), "controller", controllerPath),
+        ).toBeNull();
+
+        fs.writeFileSync(path.join(projectPath, "tsconfig.json"), '{ "compilerOptions": {} }');
+        expect(
+            readCache(openCache(projectPath, { appErrorsPath: "#lib/errors" }), "controller", controllerPath),
+        ).toBeNull();
+    });
+});
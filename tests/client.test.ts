@@ -0,0 +1,117 @@
+import { Project, ts } from "ts-morph";
+import { describe, expect, it } from "vitest";
+import { generateClient } from "../src/generators/client.js";
+import { DEFAULT_CONFIG } from "../src/types.js";
+
+describe("generateClient", () => {
+    const config = { ...DEFAULT_CONFIG, routesFile: "start/routes.ts", appErrorsPath: "#lib/errors" };
+    const source = generateClient("tests/fixtures/app", config);
+
+    it("should describe each route with its params, validated input and response type", () => {
+        expect(source).toContain("export type User = {\n    id: number;\n    email: string;\n};");
+        expect(source).toContain(
+            '    "users.show": {\n        method: "get";\n        path: "/users/:id";\n        params: { id: string | number };\n        input: undefined;\n        output: {\n            success: true;\n            data: User;\n        };\n    };',
+        );
+        expect(source).toContain("params: { id: number; slug: string };");
+        expect(source).toContain('            status: "draft" | "published";\n            tags?: Array<string>;');
+    });
+
+    it("should type outputs as the response envelope of the BaseController", () => {
+        const project = new Project({
+            useInMemoryFileSystem: true,
+            compilerOptions: { strict: true, target: 9, lib: ["lib.es2022.d.ts", "lib.dom.d.ts"] },
+        });
+        project.createSourceFile("api.ts", source);
+        project.createSourceFile(
+            "usage.ts",
+            `import type { ApiRoutes, User } from "./api";
+
+export const body: ApiRoutes["users.show"]["output"] = { success: true, data: { id: 1, email: "a@b.c" } };
+export const user: User = body.data;
+// @ts-expect-error the user is wrapped in the envelope
+export const unwrapped: ApiRoutes["users.show"]["output"] = { id: 1, email: "a@b.c" };
+// @ts-expect-error success is always true
+export const failed: ApiRoutes["users.index"]["output"] = { success: false, data: [] };
+`,
+        );
+
+        expect(project.getPreEmitDiagnostics().map((d) => d.getMessageText())).toEqual([]);
+    });
+
+    it("should rename component types named like a type of the client", () => {
+        const admin = generateClient("tests/fixtures/app", { ...config, routesFile: "start/admin_routes.ts" });
+        const project = new Project({
+            useInMemoryFileSystem: true,
+            compilerOptions: { strict: true, target: 9, lib: ["lib.es2022.d.ts", "lib.dom.d.ts"] },
+        });
+        project.createSourceFile("api.ts", admin);
+
+        expect(admin).toContain("export type ApiError2 = {\n    code: string;\n};");
+        expect(admin).toContain("            data: Array<ApiError2>;");
+        expect(admin).toContain("export class ApiError extends Error {");
+        expect(project.getPreEmitDiagnostics().map((d) => d.getMessageText())).toEqual([]);
+    });
+
+    it("should key unnamed routes by resource and handler, keeping keys unique", () => {
+        expect(source).toContain('"users.show": { method: "get", path: "/users/:id", params: ["id"] },');
+        expect(source).toContain('"users.show.get": { method: "get", path: "/me", params: [] },');
+    });
+
+    it("should type-check requests against the generated routes", () => {
+        const project = new Project({
+            useInMemoryFileSystem: true,
+            compilerOptions: { strict: true, target: 9, lib: ["lib.es2022.d.ts", "lib.dom.d.ts"] },
+        });
+        project.createSourceFile("api.ts", source);
+        project.createSourceFile(
+            "usage.ts",
+            `import { createClient } from "./api";
+
+const api = createClient({ baseUrl: "https://example.com/api" });
+
+export async function usage() {
+    const user = await api("users.show", { params: { id: 1 } });
+    const email: string = user.data.email;
+    await api("users.index");
+    await api("posts.store", { input: { title: "Hello", status: "draft" } });
+    // @ts-expect-error params are required
+    await api("users.show");
+    // @ts-expect-error status must be a known value
+    await api("posts.store", { input: { title: "Hello", status: "archived" } });
+    return email;
+}
+`,
+        );
+
+        const diagnostics = project.getPreEmitDiagnostics().map((d) => d.getMessageText());
+        expect(diagnostics).toEqual([]);
+    });
+
+    it("should build URLs, bodies and errors at runtime", async () => {
+        const { outputText } = ts.transpileModule(source, {
+            compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+        });
+        const { ApiError, createClient } = await import(`data:text/javascript,${encodeURIComponent(outputText)}`);
+
+        const requests: [string, RequestInit][] = [];
+        const api = createClient({
+            baseUrl: "https://example.com/api",
+            fetch: async (url: URL, init: RequestInit) => {
+                requests.push([url.toString(), init]);
+                return url.pathname.endsWith("/missing")
+                    ? new Response(JSON.stringify({ code: "NOT_FOUND" }), { status: 404 })
+                    : new Response(JSON.stringify({ success: true, data: { id: 1 } }));
+            },
+        });
+
+        await expect(api("users.show", { params: { id: 5 } })).resolves.toEqual({ success: true, data: { id: 1 } });
+        await api("posts.store", { input: { title: "Hello", status: "draft" } });
+        await expect(api("users.show", { params: { id: "missing" } })).rejects.toBeInstanceOf(ApiError);
+
+        expect(requests.map(([url, init]) => [init.method, url, init.body])).toEqual([
+            ["GET", "https://example.com/api/users/5", undefined],
+            ["POST", "https://example.com/api/posts", '{"title":"Hello","status":"draft"}'],
+            ["GET", "https://example.com/api/users/missing", undefined],
+        ]);
+    });
+});
@@ -0,0 +1,71 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { ListLoader } from "@adonisjs/core/ace";
+import { AceFactory } from "@adonisjs/core/factories";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import ValidateControllers from "../src/commands/validate.js";
+
+describe("validate:controllers", () => {
+    const projectPath = path.resolve("tests/fixtures/app");
+    let outputPath: string;
+    let configPath: string;
+
+    const exec = async (argv: string[]) => {
+        const kernel = await new AceFactory().make(pathToFileURL(`${projectPath}/`), {
+            importer: (filePath) => import(filePath),
+        });
+        kernel.addLoader(new ListLoader([ValidateControllers]));
+        kernel.ui.switchMode("raw");
+
+        return (await kernel.exec("validate:controllers", ["--config", configPath, ...argv])) as ValidateControllers;
+    };
+
+    beforeAll(() => {
+        outputPath = fs.mkdtempSync(path.join(os.tmpdir(), "adonis-validator-ace-"));
+        configPath = path.join(outputPath, "adonis-validator.config.json");
+        fs.writeFileSync(configPath, JSON.stringify({ appErrorsPath: "#lib/errors" }));
+    });
+
+    afterAll(() => {
+        fs.rmSync(outputPath, { recursive: true, force: true });
+    });
+
+    it("should parse its flags and write the report", async () => {
+        const reportPath = path.join(outputPath, "report.json");
+        const command = await exec([
+            "--format=json",
+            `--output=${reportPath}`,
+            "--workers=1",
+            "--no-cache",
+            "--no-baseline",
+            "--no-fail",
+        ]);
+
+        expect(command.error).toBeUndefined();
+        expect(command).toMatchObject({
+            format: "json",
+            output: reportPath,
+            workers: 1,
+            cache: false,
+            baseline: false,
+            fail: false,
+        });
+        expect(command.exitCode).toBe(0);
+        expect(JSON.parse(fs.readFileSync(reportPath, "utf-8")).totalMethods).toBeGreaterThan(0);
+    });
+
+    it("should parse the scoping, baseline and watch flags", async () => {
+        const scoped = await exec(["--changed-since=main", "--staged", "--no-cache"]);
+        expect(scoped.error).toBeUndefined();
+        expect(scoped).toMatchObject({ changedSince: "main", staged: true, exitCode: 1 });
+
+        const baseline = await exec(["--write-baseline", "--prune-baseline", "--watch", "--no-cache"]);
+        expect(baseline.error).toBeUndefined();
+        expect(baseline).toMatchObject({ writeBaseline: true, pruneBaseline: true, watch: true, exitCode: 1 });
+        expect(baseline.ui.logger.getLogs().map((log) => log.message)).toContain(
+            "[ red(error) ] --write-baseline and --prune-baseline need a full run, without --changed-since, --staged or --watch",
+        );
+    });
+});
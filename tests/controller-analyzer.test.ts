@@ -91,11 +91,66 @@ describe("analyzeController", () => {
         expect(getRawMethod?.returnStatements[0].type).toBe("other"); // Raw object return
     });
 
+    it("should record the response call chain of non-standard returns", () => {
+        const analyses = analyzeController(".", "tests/fixtures/invalid-controller.ts");
+
+        expect(analyses.get("getJson")?.returnStatements[0]).toMatchObject({ type: "other", callee: "response.json" });
+        expect(analyses.get("goHome")?.returnStatements[0].callee).toBe("response.redirect.toRoute");
+        expect(analyses.get("getRaw")?.returnStatements[0].callee).toBeUndefined();
+    });
+
+    it("should collect response calls and ignore returns of nested callbacks", () => {
+        const analyses = analyzeController(".", "tests/fixtures/invalid-controller.ts");
+
+        const sendCreated = analyses.get("sendCreated");
+        expect(sendCreated?.returnStatements).toHaveLength(0);
+        expect(sendCreated?.responseCalls).toEqual([
+            { line: 121, callee: "response.status.send", text: "response.status(201).send(users)" },
+        ]);
+    });
+
+    it("should record throw sites", () => {
+        const analyses = analyzeController(".", "tests/fixtures/invalid-controller.ts");
+
+        expect(analyses.get("validateData")?.throwStatements).toEqual([
+            { line: 96, text: 'new Error("Email required")', exceptionClass: "Error", isRethrow: false },
+        ]);
+        expect(analyses.get("rethrow")?.throwStatements).toMatchObject([
+            { exceptionClass: "AppException", isRethrow: false },
+            { text: "error", isRethrow: true },
+        ]);
+    });
+
     it("should handle methods with no return statement", () => {
         const analyses = analyzeController(".", "tests/fixtures/invalid-controller.ts");
 
         const processAsyncMethod = analyses.get("processAsync");
         expect(processAsyncMethod?.returnStatements).toHaveLength(0); // No return
+        expect(processAsyncMethod?.implicitExits).toEqual([{ line: 106, kind: "fallthrough" }]);
+    });
+
+    it("should find paths leaving a method without a response", () => {
+        const analyses = analyzeController(".", "tests/fixtures/invalid-controller.ts");
+
+        expect(analyses.get("branches")?.implicitExits).toEqual([
+            { line: 136, kind: "empty-return" },
+            { line: 145, kind: "fallthrough" },
+        ]);
+        expect(analyses.get("exhaustive")?.implicitExits).toEqual([]);
+        expect(analyses.get("conditionalReturn")?.implicitExits).toEqual([]);
+        expect(analyses.get("validateData")?.implicitExits).toEqual([]);
+    });
+
+    it("should end paths with allowed response calls", () => {
+        const allowedResponses = ["response.redirect", "response.download"];
+        const analyses = analyzeController(".", "tests/fixtures/valid-controller.ts", { allowedResponses });
+
+        expect(analyses.get("export")?.implicitExits).toEqual([]);
+        expect(analyses.get("logout")?.implicitExits).toEqual([]);
+
+        const strict = analyzeController(".", "tests/fixtures/valid-controller.ts", { allowedResponses: [] });
+        expect(strict.get("export")?.implicitExits).toEqual([{ line: 26, kind: "fallthrough" }]);
+        expect(strict.get("logout")?.implicitExits).toEqual([{ line: 30, kind: "fallthrough" }]);
     });
 
     it("should analyze all methods in a controller", () => {
@@ -104,4 +159,136 @@ describe("analyzeController", () => {
         // Invalid controller has 14 methods
         expect(analyses.size).toBeGreaterThanOrEqual(14);
     });
+
+    it("should collect suppression comments", () => {
+        const analyses = analyzeController(".", "tests/fixtures/suppressed-controller.ts");
+
+        expect(analyses.get("index")?.suppressions).toEqual([
+            {
+                scope: "line",
+                line: 8,
+                targetLine: 9,
+                rules: ["success-response-typed"],
+                reason: "legacy payload shape",
+            },
+        ]);
+        expect(analyses.get("proxy")?.suppressions).toEqual([
+            { scope: "method", line: 15, rules: ["validate-using", "success-response-typed"], reason: "raw proxy" },
+        ]);
+        expect(analyses.get("show")?.suppressions).toEqual([{ scope: "line", line: 22, targetLine: 23, rules: [] }]);
+    });
+
+    it("should type-check errorResponse arguments against the configured AppErrors", () => {
+        const analyses = analyzeController(
+            "tests/fixtures/app",
+            "tests/fixtures/app/app/controllers/accounts_controller.ts",
+            {
+                appErrorsPath: "#lib/errors",
+            },
+        );
+        const errorReturn = (method: string) => analyses.get(method)?.returnStatements[0];
+
+        // Aliased import and re-export
+        expect(errorReturn("show")).toMatchObject({ usesAppErrors: true, appErrorsKey: "NOT_FOUND" });
+        expect(errorReturn("update")).toMatchObject({ usesAppErrors: true, appErrorsKey: "FORBIDDEN" });
+        // Unknown key
+        expect(errorReturn("destroy")).toMatchObject({ usesAppErrors: false, appErrorsKey: "GONE" });
+        // Local object that happens to be named AppErrors
+        expect(errorReturn("store")?.usesAppErrors).toBe(false);
+        expect(errorReturn("store")?.appErrorsKey).toBeUndefined();
+    });
+
+    it("should detect request and params usage through every HttpContext shape", () => {
+        const analyses = analyzeController(
+            "tests/fixtures/app",
+            "tests/fixtures/app/app/controllers/context_controller.ts",
+        );
+        const usage = (method: string) => {
+            const analysis = analyses.get(method);
+            return { usesRequest: analysis?.usesRequest, usesParams: analysis?.usesParams };
+        };
+
+        expect(usage("viaContext")).toEqual({ usesRequest: true, usesParams: false });
+        expect(usage("destructuredInBody")).toEqual({ usesRequest: true, usesParams: true });
+        expect(usage("aliased")).toEqual({ usesRequest: true, usesParams: false });
+        expect(usage("renamed")).toEqual({ usesRequest: true, usesParams: false });
+        expect(usage("paramViaRequest")).toEqual({ usesRequest: true, usesParams: true });
+        expect(usage("injected")).toEqual({ usesRequest: false, usesParams: true });
+        expect(usage("untouched")).toEqual({ usesRequest: false, usesParams: false });
+    });
+});
+
+describe("analyzeController request data", () => {
+    const analyses = analyzeController(
+        "tests/fixtures/app",
+        "tests/fixtures/app/app/controllers/payloads_controller.ts",
+    );
+
+    it("should record validateUsing calls and whether they are awaited first", () => {
+        const awaited = (method: string) => analyses.get(method)?.validateUsingCalls?.map((c) => c.awaited);
+
+        expect(awaited("validated")).toEqual([true]);
+        expect(awaited("deferredAwait")).toEqual([true]);
+        expect(awaited("notAwaited")).toEqual([false]);
+        expect(analyses.get("validated")?.validateUsingCalls?.[0]).toMatchObject({
+            line: 8,
+            validator: "payloadValidator",
+        });
+    });
+
+    it("should not count a local function named validateUsing", () => {
+        const textOnly = analyses.get("textOnly");
+
+        expect(textOnly?.hasValidateUsing).toBe(false);
+        expect(textOnly?.requestDataAccesses?.map((a) => a.accessor)).toEqual(["all"]);
+    });
+
+    it("should record raw request data reads alongside validateUsing", () => {
+        const validatedThenRead = analyses.get("validatedThenRead");
+
+        expect(validatedThenRead?.hasValidateUsing).toBe(true);
+        expect(validatedThenRead?.requestDataAccesses).toEqual([
+            { line: 14, accessor: "input", text: 'request.input("role")' },
+            { line: 15, accessor: "file", text: 'request.file("avatar")' },
+        ]);
+        expect(analyses.get("validated")?.requestDataAccesses).toEqual([]);
+    });
+});
+
+describe("analyzeController validator params", () => {
+    const analyses = analyzeController("tests/fixtures/app", "tests/fixtures/app/app/controllers/posts_controller.ts");
+    const params = (method: string) => analyses.get(method)?.validateUsingCalls?.map((c) => c.params);
+
+    it("should read the params schema of imported VineJS validators", () => {
+        expect(params("show")).toEqual([["id", "slug"]]);
+        expect(params("update")).toEqual([["id"]]);
+    });
+
+    it("should return no params for validators without a params schema", () => {
+        expect(params("store")).toEqual([[]]);
+    });
+
+    it("should leave params unset when the validator cannot be resolved", () => {
+        expect(params("dynamic")).toEqual([undefined]);
+    });
+});
+
+describe("analyzeController param accesses", () => {
+    it("should record params read through property access", () => {
+        const analyses = analyzeController(".", "tests/fixtures/invalid-controller.ts");
+
+        expect(analyses.get("findBySlug")?.paramAccesses).toEqual([{ line: 57, name: "slug", text: "params.slug" }]);
+    });
+
+    it("should record destructured, dynamic and request.param() reads", () => {
+        const analyses = analyzeController(
+            "tests/fixtures/app",
+            "tests/fixtures/app/app/controllers/context_controller.ts",
+        );
+        const names = (method: string) => analyses.get(method)?.paramAccesses?.map((a) => a.name);
+
+        expect(names("nestedDestructuring")).toEqual(["id", "post_id"]);
+        expect(names("dynamicParams")).toEqual(["id", undefined, undefined, "page"]);
+        expect(names("injected")).toEqual(["id"]);
+    });
 });
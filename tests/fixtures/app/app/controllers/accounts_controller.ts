@@ -0,0 +1,23 @@
+import { AppErrors as Errors } from "#lib/errors";
+import { AppErrors as ReexportedErrors } from "../lib/index.js";
+import BaseController from "./base_controller.js";
+
+export default class AccountsController extends BaseController {
+    async show() {
+        return this.errorResponse(Errors.NOT_FOUND);
+    }
+
+    async update() {
+        return this.errorResponse(ReexportedErrors.FORBIDDEN);
+    }
+
+    async destroy() {
+        // @ts-expect-error unknown key on purpose
+        return this.errorResponse(Errors.GONE);
+    }
+
+    async store() {
+        const AppErrors = { NOT_FOUND: { status: 404, code: "NOT_FOUND", message: "Missing" } } as const;
+        return this.errorResponse(AppErrors.NOT_FOUND);
+    }
+}
@@ -0,0 +1,9 @@
+import BaseController from "#controllers/base_controller";
+
+type Report = { id: number; title: string };
+
+export default class ReportsController extends BaseController {
+    async index() {
+        return this.successResponse<Report[]>([]);
+    }
+}
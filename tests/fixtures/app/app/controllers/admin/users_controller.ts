@@ -0,0 +1,17 @@
+import BaseController from "#controllers/base_controller";
+
+type User = { id: number; roles: string[] };
+
+interface ApiError {
+    code: string;
+}
+
+export default class UsersController extends BaseController {
+    async list() {
+        return this.successResponse<User[]>([]);
+    }
+
+    async failures() {
+        return this.successResponse<ApiError[]>([]);
+    }
+}
@@ -0,0 +1,13 @@
+import type { AppError } from "#lib/errors";
+
+type SuccessfulRequest<T> = { success: true; data: T };
+
+export default class BaseController {
+    protected async successResponse<T>(data: T): Promise<SuccessfulRequest<T>> {
+        return { success: true, data };
+    }
+
+    protected errorResponse(error: AppError, details?: unknown) {
+        return { success: false, error, details };
+    }
+}
@@ -0,0 +1,48 @@
+import type { HttpContext } from "@adonisjs/core/http";
+import BaseController from "./base_controller.js";
+
+export default class ContextController extends BaseController {
+    constructor(protected ctx: HttpContext) {
+        super();
+    }
+
+    async viaContext(ctx: HttpContext) {
+        return this.successResponse<unknown>(ctx.request.all());
+    }
+
+    async destructuredInBody(ctx: HttpContext) {
+        const { request, params } = ctx;
+        return this.successResponse<unknown>({ body: request.body(), id: params.id });
+    }
+
+    async aliased(ctx: HttpContext) {
+        const context = ctx;
+        const req = context.request;
+        return this.successResponse<unknown>(req.input("name"));
+    }
+
+    async renamed({ request: req }: HttpContext) {
+        return this.successResponse<unknown>(req.qs());
+    }
+
+    async paramViaRequest({ request }: HttpContext) {
+        return this.successResponse<unknown>(request.param("id"));
+    }
+
+    async injected() {
+        return this.successResponse<unknown>(this.ctx.params.id);
+    }
+
+    async untouched(ctx: HttpContext) {
+        return this.successResponse<string>(ctx.route?.pattern ?? "");
+    }
+
+    async nestedDestructuring({ params: { id, post_id: postId } }: HttpContext) {
+        return this.successResponse<unknown>({ id, postId });
+    }
+
+    async dynamicParams({ params, request }: HttpContext, key: string) {
+        const { id, ...rest } = params;
+        return this.successResponse<unknown>({ id, rest, value: params[key], page: request.param("page") });
+    }
+}
@@ -0,0 +1,7 @@
+import BaseController from "./base_controller.js";
+
+export default class HealthController extends BaseController {
+    async check() {
+        return this.successResponse<{ ok: boolean }>({ ok: true });
+    }
+}
@@ -0,0 +1,34 @@
+import type { HttpContext } from "@adonisjs/core/http";
+import BaseController from "./base_controller.js";
+
+const payloadValidator = {};
+
+export default class PayloadsController extends BaseController {
+    async validated({ request }: HttpContext) {
+        const payload = await request.validateUsing(payloadValidator);
+        return this.successResponse<unknown>(payload);
+    }
+
+    async validatedThenRead({ request }: HttpContext) {
+        const payload = await request.validateUsing(payloadValidator);
+        const role = request.input("role");
+        return this.successResponse<unknown>({ ...payload, role, file: request.file("avatar") });
+    }
+
+    async deferredAwait({ request }: HttpContext) {
+        const pending = request.validateUsing(payloadValidator);
+        const payload = await pending;
+        return this.successResponse<unknown>(payload);
+    }
+
+    async notAwaited({ request }: HttpContext) {
+        const pending = request.validateUsing(payloadValidator);
+        pending.then(() => undefined);
+        return this.successResponse<unknown>(await pending);
+    }
+
+    async textOnly(ctx: HttpContext) {
+        const validateUsing = () => ctx.request.all();
+        return this.successResponse<unknown>(validateUsing());
+    }
+}
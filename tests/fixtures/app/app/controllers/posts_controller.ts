@@ -0,0 +1,25 @@
+import type { HttpContext } from "@adonisjs/core/http";
+import { createPostValidator, showPostValidator, updatePostValidator } from "#validators/post";
+import BaseController from "./base_controller.js";
+
+export default class PostsController extends BaseController {
+    async show({ request }: HttpContext) {
+        const { params } = await request.validateUsing(showPostValidator);
+        return this.successResponse<unknown>(params);
+    }
+
+    async update({ request }: HttpContext) {
+        const { params, title } = await request.validateUsing(updatePostValidator);
+        return this.successResponse<unknown>({ id: params.id, title });
+    }
+
+    async store({ request }: HttpContext) {
+        const payload = await request.validateUsing(createPostValidator);
+        return this.successResponse<unknown>(payload);
+    }
+
+    async dynamic({ request }: HttpContext, validator: typeof createPostValidator) {
+        const payload = await request.validateUsing(validator);
+        return this.successResponse<unknown>(payload);
+    }
+}
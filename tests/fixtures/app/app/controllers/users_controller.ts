@@ -0,0 +1,19 @@
+import type { HttpContext } from "@adonisjs/core/http";
+import { AppErrors } from "#lib/errors";
+import BaseController from "./base_controller.js";
+
+type User = { id: number; email: string };
+
+export default class UsersController extends BaseController {
+    async index() {
+        const users: User[] = [];
+        return this.successResponse<User[]>(users);
+    }
+
+    async show({ params }: HttpContext) {
+        if (!params.id) {
+            return this.errorResponse(AppErrors.NOT_FOUND);
+        }
+        return this.successResponse<User>({ id: Number(params.id), email: "a@b.c" });
+    }
+}
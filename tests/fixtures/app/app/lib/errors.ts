@@ -0,0 +1,6 @@
+export const AppErrors = {
+    NOT_FOUND: { status: 404, code: "NOT_FOUND", message: "Resource not found" },
+    FORBIDDEN: { status: 403, code: "FORBIDDEN", message: "Access denied" },
+} as const;
+
+export type AppError = (typeof AppErrors)[keyof typeof AppErrors];
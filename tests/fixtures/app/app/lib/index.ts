@@ -0,0 +1 @@
+export { AppErrors } from "./errors.js";
@@ -0,0 +1,23 @@
+import vine from "@vinejs/vine";
+
+const postIdParams = vine.object({ id: vine.number() });
+
+export const showPostValidator = vine.compile(
+    vine.object({
+        params: vine.object({ id: vine.number(), slug: vine.string() }),
+    }),
+);
+
+export const updatePostValidator = vine.create({
+    title: vine.string(),
+    params: postIdParams,
+});
+
+export const createPostValidator = vine.compile(
+    vine.object({
+        title: vine.string().minLength(3),
+        status: vine.enum(["draft", "published"]),
+        tags: vine.array(vine.string()).optional(),
+        publishedAt: vine.date().nullable().optional(),
+    }),
+);
@@ -0,0 +1,8 @@
+import router from "@adonisjs/core/services/router";
+
+const UsersController = () => import("#controllers/users_controller");
+
+router.get("/users", [UsersController, "index"]);
+router.get("/admin/users", "#controllers/admin/users_controller.list");
+router.get("/admin/users/:page?", "#controllers/admin/users_controller.list");
+router.get("/admin/failures", "#controllers/admin/users_controller.failures");
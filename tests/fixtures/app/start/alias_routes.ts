@@ -0,0 +1,8 @@
+import router from "@adonisjs/core/services/router";
+
+const UsersController = () => import("#controllers/users_controller");
+
+router.get("/users/:id", [UsersController, "show"]);
+router.get("/me", [UsersController, "show"]);
+router.get("/profile", [UsersController, "show"]);
+router.get("/account", [UsersController, "show"]);
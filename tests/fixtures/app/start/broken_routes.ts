@@ -0,0 +1,8 @@
+import router from "@adonisjs/core/services/router";
+
+const UsersController = () => import("#controllers/users_controller");
+const InvoicesController = () => import("#controllers/invoices_controller");
+
+router.get("/users", [UsersController, "index"]);
+router.get("/users/:id/edit", [UsersController, "edit"]);
+router.get("/invoices", [InvoicesController, "index"]);
@@ -0,0 +1,14 @@
+import router from "@adonisjs/core/services/router";
+import HealthController from "#controllers/health";
+
+const UsersController = () => import("#controllers/users_controller");
+const ReportsController = () => import("~/controllers/admin/reports_controller.js");
+const PostsController = () => import("#controllers/posts_controller");
+
+router.get("/health", [HealthController, "check"]);
+router.get("/users", [UsersController, "index"]);
+router.get("/users/:id", [UsersController, "show"]);
+router.get("/admin/reports", [ReportsController, "index"]);
+router.get("/me", "#controllers/users_controller.show");
+router.get("/posts/:id/:slug", [PostsController, "show"]);
+router.post("/posts", [PostsController, "store"]);
@@ -0,0 +1,16 @@
+// Fixture: A third-party plugin shipping a single rule
+import type { ValidatorPlugin } from "../../src/types.js";
+
+const plugin: ValidatorPlugin = {
+    name: "house-rules",
+    rules: [
+        {
+            id: "house/no-console",
+            defaultSeverity: "warning",
+            docs: { description: "Controller methods must not log to the console" },
+            check: () => [],
+        },
+    ],
+};
+
+export default plugin;
@@ -112,4 +112,57 @@ export default class InvalidController extends BaseController {
         }
         return { id: 1, name: "Test" }; // BAD: inconsistent, should use successResponse
     }
+
+    // VIOLATION 15: Sends the body through response instead of returning successResponse
+    async sendCreated({ response }: HttpContext) {
+        const users = [{ id: 1 }].map((user) => {
+            return { ...user, name: "Test" }; // OK: callback return, not a method return
+        });
+        response.status(201).send(users); // BAD: should return this.successResponse<User[]>(users)
+    }
+
+    // Allowed: redirects do not carry a payload
+    async goHome({ response }: HttpContext) {
+        return response.redirect().toRoute("home");
+    }
+
+    // VIOLATION 16: Only some branches respond; throws are fine
+    async branches({ params }: HttpContext) {
+        if (params.mode === "throw") {
+            throw new Error("Not supported");
+        }
+        switch (params.mode) {
+            case "empty":
+                return;
+            case "ok":
+                return this.successResponse<User>({ id: 1, name: "Test" });
+        }
+        try {
+            return this.successResponse<User>({ id: 2, name: "Test" });
+        } catch {
+            console.error("failed");
+        }
+    }
+
+    // Allowed: every path responds or throws
+    async exhaustive({ params }: HttpContext) {
+        while (true) {
+            if (params.id) {
+                return this.successResponse<User>({ id: 1, name: "Test" });
+            }
+            throw new Error("Missing id");
+        }
+    }
+
+    // Allowed when AppException is configured; rethrowing a caught error is always allowed
+    async rethrow() {
+        try {
+            return this.successResponse<User>({ id: 1, name: "Test" });
+        } catch (error) {
+            if (error instanceof TypeError) {
+                throw AppException.fromError(AppErrors.NOT_FOUND);
+            }
+            throw error;
+        }
+    }
 }
@@ -0,0 +1,48 @@
+// Fixture: A routes file with groups, prefixes and names
+import router from "@adonisjs/core/services/router";
+import { middleware } from "#start/kernel";
+
+const UsersController = () => import("#controllers/users_controller");
+const PostsController = () => import("#controllers/posts_controller");
+const HealthController = () => import("#controllers/health_controller");
+const CommentsController = () => import("#controllers/comments_controller");
+const CategoriesController = () => import("#controllers/categories_controller");
+
+router.get("/health", [HealthController, "check"]);
+
+router
+    .group(() => {
+        router.get("/users", [UsersController, "index"]).as("index");
+        router.get("/users/:id", [UsersController, "show"]).as("show");
+
+        router
+            .group(() => {
+                router.get("/posts", [PostsController, "index"]).as("index");
+                router.post("/", [PostsController, "store"]).use(middleware.throttle());
+            })
+            .prefix("/users/:user_id")
+            .as("posts");
+    })
+    .prefix("/api/v1")
+    .as("api")
+    .use([middleware.auth({ guards: ["api"] })]);
+
+router
+    .group(() => {
+        router.get("/", [PostsController, "index"]).prefix("/feed");
+    })
+    .domain("blog.example.com");
+
+router.get("/inline", () => "ok");
+
+router.post("/login", [UsersController, "login"]).middleware("guest:web");
+
+router
+    .group(() => {
+        router.resource("categories", CategoriesController).apiOnly().use(["store", "update"], middleware.auth());
+        router.resource("posts.comments", CommentsController).only(["index", "show"]).params({ posts: "post" });
+    })
+    .prefix("/admin")
+    .as("admin");
+
+router.resource("tags", CategoriesController).except(["create", "edit", "destroy"]).params({ tags: "slug" });
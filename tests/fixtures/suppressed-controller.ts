@@ -0,0 +1,25 @@
+// Fixture: A controller silencing violations with suppression comments
+import type { HttpContext } from "@adonisjs/core/http";
+import BaseController from "./base_controller";
+
+export default class SuppressedController extends BaseController {
+    async index() {
+        const users: unknown[] = [];
+        // adonis-validator-disable-next-line success-response-typed -- legacy payload shape
+        return this.successResponse(users);
+    }
+
+    /**
+     * Proxies the upstream payload untouched.
+     *
+     * @adonis-validator-disable validate-using, success-response-typed -- raw proxy
+     */
+    async proxy({ request }: HttpContext) {
+        return this.successResponse(request.body());
+    }
+
+    async show() {
+        // adonis-validator-disable-next-line
+        return this.successResponse<{ id: number }>({ id: 1 });
+    }
+}
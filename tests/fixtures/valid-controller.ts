@@ -20,4 +20,12 @@ export default class ValidController extends BaseController {
         const user: User = { id: 1, name: "Test" };
         return this.successResponse<User>(user);
     }
+
+    async export({ response }: HttpContext) {
+        await response.download("/tmp/users.csv");
+    }
+
+    async logout({ response }: HttpContext) {
+        response.redirect().toRoute("home");
+    }
 }
@@ -0,0 +1,97 @@
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getGitChanges, parseDiff, readRevisionFile } from "../src/git.js";
+
+describe("parseDiff", () => {
+    it("should collect changed files with their added or modified lines and where lines were deleted", () => {
+        const diff = [
+            "diff --git a/start/routes.ts b/start/routes.ts",
+            "--- a/start/routes.ts",
+            "+++ b/start/routes.ts",
+            "@@ -4 +4 @@ import router",
+            "@@ -9,0 +10,2 @@ router.get",
+            "@@ -20,3 +22,0 @@ router.post",
+            "diff --git a/app/validators/user.ts b/app/validators/user.ts",
+            "new file mode 100644",
+            "--- /dev/null",
+            "+++ b/app/validators/user.ts",
+            "@@ -0,0 +1,2 @@",
+            "diff --git a/app/controllers/old_controller.ts b/app/controllers/old_controller.ts",
+            "deleted file mode 100644",
+            "--- a/app/controllers/old_controller.ts",
+            "+++ /dev/null",
+            "@@ -1,3 +0,0 @@",
+        ].join("\n");
+
+        const changes = parseDiff("/app", diff);
+
+        expect(changes.files).toEqual([
+            "/app/start/routes.ts",
+            "/app/app/validators/user.ts",
+            "/app/app/controllers/old_controller.ts",
+        ]);
+        expect(changes.lines).toEqual(
+            new Map([
+                ["/app/start/routes.ts", [4, 10, 11, 22]],
+                ["/app/app/validators/user.ts", [1, 2]],
+            ]),
+        );
+    });
+});
+
+describe("getGitChanges", () => {
+    let repoPath: string;
+    const git = (...args: string[]) => execFileSync("git", args, { cwd: repoPath, stdio: "ignore" });
+
+    beforeEach(() => {
+        repoPath = fs.mkdtempSync(path.join(os.tmpdir(), "adonis-validator-git-"));
+        git("init", "-q", "-b", "main");
+        git("config", "user.email", "dev@example.com");
+        git("config", "user.name", "Dev");
+        fs.writeFileSync(path.join(repoPath, "routes.ts"), "one\ntwo\nthree\n");
+        git("add", ".");
+        git("commit", "-q", "-m", "initial");
+    });
+
+    afterEach(() => {
+        fs.rmSync(repoPath, { recursive: true, force: true });
+    });
+
+    it("should include committed, uncommitted and untracked changes since a ref", () => {
+        git("checkout", "-q", "-b", "feature");
+        fs.writeFileSync(path.join(repoPath, "routes.ts"), "one\nTWO\nthree\n");
+        git("commit", "-q", "-am", "change");
+        fs.writeFileSync(path.join(repoPath, "new.ts"), "new\n");
+
+        const changes = getGitChanges(repoPath, { since: "main" });
+
+        expect(changes.files.map((file) => path.basename(file))).toEqual(["routes.ts", "new.ts"]);
+        expect(changes.lines.get(path.join(repoPath, "routes.ts"))).toEqual([2]);
+        expect(changes.base).toBe(execFileSync("git", ["rev-parse", "main"], { cwd: repoPath }).toString().trim());
+    });
+
+    it("should only include staged changes with staged", () => {
+        fs.writeFileSync(path.join(repoPath, "routes.ts"), "one\ntwo\nthree\nfour\n");
+        fs.writeFileSync(path.join(repoPath, "staged.ts"), "staged\n");
+        git("add", "staged.ts");
+
+        const changes = getGitChanges(repoPath, { staged: true });
+
+        expect(changes.files.map((file) => path.basename(file))).toEqual(["staged.ts"]);
+        expect(changes.base).toBe("HEAD");
+    });
+
+    it("should read files as they were at a revision", () => {
+        fs.writeFileSync(path.join(repoPath, "routes.ts"), "changed\n");
+
+        expect(readRevisionFile(repoPath, "HEAD", path.join(repoPath, "routes.ts"))).toBe("one\ntwo\nthree\n");
+        expect(readRevisionFile(repoPath, "HEAD", path.join(repoPath, "missing.ts"))).toBeNull();
+    });
+
+    it("should report git errors", () => {
+        expect(() => getGitChanges(repoPath, { since: "missing-branch" })).toThrow(/git merge-base failed/);
+    });
+});
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import { formatOpenApi, generateOpenApi } from "../src/generators/openapi.js";
+import { toYaml } from "../src/generators/yaml.js";
+import { DEFAULT_CONFIG } from "../src/types.js";
+
+describe("generateOpenApi", () => {
+    const config = { ...DEFAULT_CONFIG, routesFile: "start/routes.ts", appErrorsPath: "#lib/errors" };
+    const document = generateOpenApi("tests/fixtures/app", config, { version: "2.0.0" });
+
+    it("should describe every route with package.json info", () => {
+        expect(document.openapi).toBe("3.1.0");
+        expect(document.info).toEqual({ title: "fixture-app", version: "2.0.0" });
+        expect(Object.keys(document.paths)).toEqual(
+            expect.arrayContaining(["/users", "/users/{id}", "/posts/{id}/{slug}", "/posts"]),
+        );
+    });
+
+    it("should use the body successResponse resolves to and AppErrors statuses for responses", () => {
+        const show = document.paths["/users/{id}"]?.get;
+
+        expect(show?.operationId).toBe("usersShow");
+        expect(show?.responses).toEqual({
+            200: {
+                description: "Successful response",
+                content: {
+                    "application/json": {
+                        schema: {
+                            type: "object",
+                            properties: {
+                                success: { type: "boolean", const: true },
+                                data: { $ref: "#/components/schemas/User" },
+                            },
+                            required: ["success", "data"],
+                        },
+                    },
+                },
+            },
+            404: { description: "NOT_FOUND" },
+        });
+        expect(document.components.schemas.User).toEqual({
+            type: "object",
+            properties: { id: { type: "number" }, email: { type: "string" } },
+            required: ["id", "email"],
+        });
+    });
+
+    it("should build the request body from the validator schema", () => {
+        const store = document.paths["/posts"]?.post;
+
+        expect(store?.requestBody?.content["application/json"].schema).toEqual({
+            type: "object",
+            properties: {
+                title: { type: "string", minLength: 3 },
+                status: { enum: ["draft", "published"] },
+                tags: { type: "array", items: { type: "string" } },
+                publishedAt: { type: ["string", "null"], format: "date-time" },
+            },
+            required: ["title", "status"],
+        });
+    });
+
+    it("should type path parameters from the validator params schema", () => {
+        const show = document.paths["/posts/{id}/{slug}"]?.get;
+
+        expect(show?.parameters).toEqual([
+            { name: "id", in: "path", required: true, schema: { type: "number" } },
+            { name: "slug", in: "path", required: true, schema: { type: "string" } },
+        ]);
+    });
+
+    it("should keep operation ids unique when a handler serves several routes", () => {
+        const aliases = generateOpenApi("tests/fixtures/app", { ...config, routesFile: "start/alias_routes.ts" });
+
+        expect(Object.values(aliases.paths).map((item) => item.get?.operationId)).toEqual([
+            "usersShow",
+            "usersShowGet",
+            "usersShowGet2",
+            "usersShowGet3",
+        ]);
+    });
+
+    it("should describe routes with optional params once without and once with them", () => {
+        const admin = generateOpenApi("tests/fixtures/app", { ...config, routesFile: "start/admin_routes.ts" });
+
+        expect(Object.keys(admin.paths)).toEqual(["/users", "/admin/users", "/admin/users/{page}", "/admin/failures"]);
+        expect(admin.paths["/admin/users/{page}"]?.get?.parameters).toEqual([
+            { name: "page", in: "path", required: true, schema: { type: "string" } },
+        ]);
+    });
+
+    it("should keep same-named types of different files apart", () => {
+        const admin = generateOpenApi("tests/fixtures/app", { ...config, routesFile: "start/admin_routes.ts" });
+        const itemsOf = (path: string) => admin.paths[path]?.get?.responses[200].content?.["application/json"].schema;
+
+        expect(itemsOf("/users")?.properties?.data).toEqual({
+            type: "array",
+            items: { $ref: "#/components/schemas/User" },
+        });
+        expect(itemsOf("/admin/users")?.properties?.data).toEqual({
+            type: "array",
+            items: { $ref: "#/components/schemas/User2" },
+        });
+        expect(admin.components.schemas.User.required).toEqual(["id", "email"]);
+        expect(admin.components.schemas.User2.required).toEqual(["id", "roles"]);
+    });
+
+    it("should serialize documents as JSON or YAML", () => {
+        expect(JSON.parse(formatOpenApi(document, "json"))).toEqual(document);
+        expect(formatOpenApi(document, "yaml")).toContain('"/users/{id}":\n    get:\n      operationId: usersShow\n');
+    });
+});
+
+describe("toYaml", () => {
+    it("should quote strings that would not read back as strings", () => {
+        expect(toYaml({ a: "true", b: "1.0", c: "plain", d: "two words", e: [1, { f: null }], g: {} })).toBe(
+            'a: "true"\nb: "1.0"\nc: plain\nd: "two words"\ne:\n  - 1\n  - f: null\ng: {}\n',
+        );
+    });
+});
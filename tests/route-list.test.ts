@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { formatRouteTable, listRoutes } from "../src/route-list.js";
+import { DEFAULT_CONFIG } from "../src/types.js";
+
+describe("listRoutes", () => {
+    const projectPath = "tests/fixtures/app";
+    const config = { ...DEFAULT_CONFIG, routesFile: "start/routes.ts", appErrorsPath: "#lib/errors" };
+    const entries = listRoutes(projectPath, config);
+
+    it("should list routes with their handler location and validation status", () => {
+        expect(entries.find((e) => e.path === "/users")).toEqual({
+            method: "get",
+            path: "/users",
+            controller: "UsersController",
+            handler: "index",
+            middleware: [],
+            routeLine: 9,
+            file: "app/controllers/users_controller.ts",
+            handlerLine: 8,
+            status: "passed",
+            errorCount: 0,
+            warningCount: 0,
+        });
+        expect(entries.find((e) => e.path === "/posts")).toMatchObject({ status: "failed", errorCount: 1 });
+    });
+
+    it("should mark whitelisted handlers", () => {
+        const whitelisted = listRoutes(
+            projectPath,
+            { ...config, whitelist: ["PostsController.store"] },
+            { path: "/posts" },
+        );
+        expect(whitelisted.map((e) => [e.path, e.status])).toEqual([
+            ["/posts/:id/:slug", "passed"],
+            ["/posts", "whitelisted"],
+        ]);
+        expect(whitelisted[1]).toMatchObject({ file: "app/controllers/posts_controller.ts", handlerLine: 16 });
+    });
+
+    it("should filter by controller, method and path pattern", () => {
+        const paths = (filters: Parameters<typeof listRoutes>[2]) =>
+            listRoutes(projectPath, config, filters).map((e) => e.path);
+
+        expect(paths({ controller: "users" })).toEqual(["/users", "/users/:id", "/me"]);
+        expect(paths({ method: "POST" })).toEqual(["/posts"]);
+        expect(paths({ path: "/posts/*" })).toEqual(["/posts/:id/:slug"]);
+        expect(paths({ path: "admin" })).toEqual(["/admin/reports"]);
+    });
+
+    it("should render an aligned table", () => {
+        const table = formatRouteTable(entries.filter((e) => e.controller === "HealthController"));
+
+        expect(table).toBe(
+            [
+                "METHOD  PATH     HANDLER                 LOCATION                     MIDDLEWARE  STATUS",
+                "GET     /health  HealthController.check  app/controllers/health.ts:4  -           passed",
+                "",
+            ].join("\n"),
+        );
+    });
+});
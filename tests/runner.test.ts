@@ -0,0 +1,367 @@
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { pathToFileURL } from "node:url";
+import { ts } from "ts-morph";
+import { afterAll, afterEach, beforeEach, describe, expect, it } from "vitest";
+import { getGitChanges } from "../src/git.js";
+import { createAnalysisSession, measure, measureAsync } from "../src/parsers/analysis-session.js";
+import { runValidation } from "../src/runner.js";
+import { DEFAULT_CONFIG, type FileChanges } from "../src/types.js";
+
+describe("runValidation diagnostics", () => {
+    const projectPath = "tests/fixtures/app";
+    const config = { ...DEFAULT_CONFIG, routesFile: "start/broken_routes.ts", appErrorsPath: "#lib/errors" };
+    const result = runValidation(projectPath, config);
+    const byRule = (rule: string) => result.diagnostics.filter((d) => d.rule === rule);
+
+    it("should report routes whose controller or handler is missing", () => {
+        expect(byRule("controller-missing")).toEqual([
+            {
+                rule: "controller-missing",
+                message:
+                    'Controller InvoicesController for GET /invoices not found: "#controllers/invoices_controller" does not resolve to a file',
+                line: 8,
+                severity: "error",
+                filePath: "tests/fixtures/app/start/broken_routes.ts",
+            },
+        ]);
+        expect(byRule("route-handler-missing")).toMatchObject([
+            { message: "GET /users/:id/edit points to UsersController.edit, which does not exist", line: 7 },
+        ]);
+        expect(result.passed).toBe(false);
+        expect(result.errorCount).toBe(2);
+    });
+
+    it("should report public methods no route points to", () => {
+        const unrouted = byRule("unrouted-public-method").map((d) => d.message.split(" ")[0]);
+
+        expect(unrouted).toContain("UsersController.show");
+        expect(unrouted).toContain("AccountsController.store");
+        expect(unrouted).not.toContain("UsersController.index");
+        // Protected helpers are not handlers
+        expect(unrouted.some((key) => key.startsWith("BaseController."))).toBe(false);
+        expect(
+            byRule("unrouted-public-method").find((d) => d.message.startsWith("UsersController.show")),
+        ).toMatchObject({
+            line: 13,
+            severity: "warning",
+            filePath: expect.stringMatching(/app\/controllers\/users_controller\.ts$/),
+        });
+    });
+
+    it("should respect rule settings and the whitelist", () => {
+        const relaxed = runValidation(projectPath, {
+            ...config,
+            rules: { "controller-missing": "off", "route-handler-missing": "warn", "unrouted-public-method": "warn" },
+            whitelist: ["UsersController.show"],
+        });
+
+        expect(relaxed.diagnostics.some((d) => d.rule === "controller-missing")).toBe(false);
+        expect(relaxed.diagnostics.find((d) => d.rule === "route-handler-missing")?.severity).toBe("warning");
+        expect(relaxed.diagnostics.some((d) => d.message.startsWith("UsersController.show"))).toBe(false);
+        expect(relaxed.passed).toBe(true);
+    });
+});
+
+describe("runValidation session", () => {
+    it("should parse routes and analyze controllers in one session and time each phase", () => {
+        const projectPath = "tests/fixtures/app";
+        const session = createAnalysisSession(projectPath);
+        const result = runValidation(projectPath, { ...DEFAULT_CONFIG, appErrorsPath: "#lib/errors" }, { session });
+
+        expect(result.totalMethods).toBeGreaterThan(0);
+        expect([...session.timings.keys()]).toEqual(["project", "routes", "controllers", "rules"]);
+        expect(session.appErrors.size).toBe(1);
+        expect(
+            session.project.getSourceFile(path.resolve(projectPath, "app/controllers/users_controller.ts")),
+        ).toBeDefined();
+    });
+});
+
+describe("runValidation cached routes", () => {
+    let projectPath: string;
+
+    beforeEach(() => {
+        projectPath = fs.mkdtempSync(path.join(os.tmpdir(), "adonis-validator-cached-"));
+        fs.cpSync("tests/fixtures/app", projectPath, { recursive: true });
+        fs.writeFileSync(
+            path.join(projectPath, "start/routes.ts"),
+            [
+                'import router from "@adonisjs/core/services/router";',
+                "",
+                'const ExportsController = () => import("#controllers/admin/exports_controller");',
+                "",
+                'router.get("/exports", [ExportsController, "index"]);',
+                "",
+            ].join("\n"),
+        );
+    });
+
+    afterEach(() => {
+        fs.rmSync(projectPath, { recursive: true, force: true });
+    });
+
+    it("should resolve a controller import again once its file exists", () => {
+        const session = createAnalysisSession(projectPath);
+        const config = { ...DEFAULT_CONFIG, appErrorsPath: "#lib/errors", cache: false };
+
+        const missing = runValidation(projectPath, config, { session });
+        expect(missing.diagnostics.map((d) => d.rule)).toContain("controller-missing");
+
+        fs.writeFileSync(
+            path.join(projectPath, "app/controllers/admin/exports_controller.ts"),
+            [
+                'import type { HttpContext } from "@adonisjs/core/http";',
+                "",
+                "export default class ExportsController {",
+                "    async index({ response }: HttpContext) {",
+                "        return response.ok({ exports: [] });",
+                "    }",
+                "}",
+                "",
+            ].join("\n"),
+        );
+        const resolved = runValidation(projectPath, config, { session });
+
+        expect(resolved.diagnostics.map((d) => d.rule)).not.toContain("controller-missing");
+        expect(resolved.results.map((r) => `${r.controller}.${r.method}`)).toEqual(["ExportsController.index"]);
+    });
+});
+
+describe("runValidationInWorkers", () => {
+    // Workers load compiled modules, so the sources are transpiled next to node_modules to run them
+    fs.mkdirSync(path.join("node_modules", ".cache"), { recursive: true });
+    const buildPath = fs.mkdtempSync(path.join("node_modules", ".cache", "adonis-validator-workers-"));
+
+    afterAll(() => {
+        fs.rmSync(buildPath, { recursive: true, force: true });
+    });
+
+    it("should analyze controllers in worker threads like in the main thread", async () => {
+        for (const file of fs.readdirSync("src", { recursive: true, encoding: "utf-8" })) {
+            if (!file.endsWith(".ts")) continue;
+
+            const { outputText } = ts.transpileModule(fs.readFileSync(path.join("src", file), "utf-8"), {
+                compilerOptions: { module: ts.ModuleKind.ESNext, target: ts.ScriptTarget.ES2022 },
+            });
+            fs.mkdirSync(path.join(buildPath, path.dirname(file)), { recursive: true });
+            fs.writeFileSync(path.join(buildPath, file.replace(/\.ts$/, ".js")), outputText);
+        }
+        fs.writeFileSync(path.join(buildPath, "package.json"), '{ "type": "module" }');
+
+        const load = (file: string) => import(pathToFileURL(path.resolve(buildPath, file)).href);
+        const built: typeof import("../src/runner.js") = await load("runner.js");
+        const builtSession: typeof import("../src/parsers/analysis-session.js") =
+            await load("parsers/analysis-session.js");
+        const projectPath = "tests/fixtures/app";
+        const config = { ...DEFAULT_CONFIG, appErrorsPath: "#lib/errors" };
+        const session = builtSession.createAnalysisSession(projectPath);
+
+        const threaded = await built.runValidationInWorkers(projectPath, { ...config, workers: 2 }, { session });
+        const single = runValidation(projectPath, config);
+
+        expect(threaded.results).toEqual(single.results);
+        expect(threaded.diagnostics).toEqual(single.diagnostics);
+        expect(threaded.passed).toBe(single.passed);
+        expect([...session.timings.keys()]).toEqual(["project", "routes", "controllers", "rules"]);
+    }, 60_000);
+
+    it("should only count the time of phases nested in async phases for them", async () => {
+        const session = { timings: new Map<string, number>() };
+        const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+        await measureAsync(session, "outer", async () => {
+            measure(session, "inner", () => {
+                const end = performance.now() + 50;
+                while (performance.now() < end);
+            });
+            await wait(10);
+        });
+
+        expect(session.timings.get("inner")).toBeGreaterThanOrEqual(50);
+        expect(session.timings.get("outer")).toBeLessThan(50);
+    });
+});
+
+describe("runValidation configuration", () => {
+    const projectPath = "tests/fixtures/app";
+
+    it("should reject an appErrorsPath that does not resolve while its rule is enabled", () => {
+        const config = { ...DEFAULT_CONFIG, appErrorsPath: "#lib/erors" };
+
+        expect(() => runValidation(projectPath, config)).toThrow(
+            'appErrorsPath "#lib/erors" does not resolve to a module exporting AppErrors',
+        );
+        expect(() =>
+            runValidation(projectPath, { ...config, rules: { "error-response-app-errors": "off" } }),
+        ).not.toThrow();
+    });
+});
+
+describe("runValidation changes", () => {
+    const projectPath = "tests/fixtures/app";
+    const config = { ...DEFAULT_CONFIG, appErrorsPath: "#lib/errors" };
+    const handlers = (files: string[], lines = new Map<string, number[]>()) =>
+        runValidation(projectPath, config, {
+            changes: { files: files.map((file) => path.resolve(projectPath, file)), lines },
+        }).results.map((r) => `${r.controller}.${r.method}`);
+
+    it("should check the routes of changed controllers and of controllers importing changed files", () => {
+        expect(handlers(["app/controllers/users_controller.ts"]).sort()).toEqual([
+            "UsersController.index",
+            "UsersController.show",
+        ]);
+        expect(handlers(["app/validators/post.ts"]).sort()).toEqual(["PostsController.show", "PostsController.store"]);
+        expect(handlers(["README.md"])).toEqual([]);
+    });
+
+    it("should only check added or modified routes when the routes file changes", () => {
+        const routesFile = path.resolve(projectPath, "start/routes.ts");
+
+        expect(handlers(["start/routes.ts"], new Map([[routesFile, [13]]]))).toEqual(["PostsController.show"]);
+        expect(handlers(["start/routes.ts"], new Map([[routesFile, [1]]]))).toEqual([]);
+        expect(handlers(["start/routes.ts"]).length).toBeGreaterThan(4);
+    });
+});
+
+describe("runValidation routes file changes", () => {
+    let repoPath: string;
+    const git = (...args: string[]) => execFileSync("git", args, { cwd: repoPath, stdio: "ignore" });
+    const writeRoutes = (...groupModifiers: string[]) =>
+        fs.writeFileSync(
+            path.join(repoPath, "start/routes.ts"),
+            [
+                'import router from "@adonisjs/core/services/router";',
+                'import { middleware } from "#start/kernel";',
+                'import HealthController from "#controllers/health";',
+                "",
+                'const UsersController = () => import("#controllers/users_controller");',
+                'const PostsController = () => import("#controllers/posts_controller");',
+                "",
+                'router.get("/health", [HealthController, "check"]);',
+                'router.get("/users", [UsersController, "index"]);',
+                "router",
+                "    .group(() => {",
+                '        router.get("/posts/:id/:slug", [PostsController, "show"]);',
+                '        router.post("/posts", [PostsController, "store"]);',
+                "    })",
+                ...groupModifiers,
+                "",
+            ].join("\n"),
+        );
+    const handlers = (changes: FileChanges) =>
+        runValidation(repoPath, { ...DEFAULT_CONFIG, appErrorsPath: "#lib/errors", cache: false }, { changes })
+            .results.map((r) => `${r.controller}.${r.method}`)
+            .sort();
+
+    beforeEach(() => {
+        repoPath = fs.mkdtempSync(path.join(os.tmpdir(), "adonis-validator-routes-"));
+        fs.cpSync("tests/fixtures/app", repoPath, { recursive: true });
+        writeRoutes('    .prefix("/api")', "    .use(middleware.auth());");
+        git("init", "-q", "-b", "main");
+        git("config", "user.email", "dev@example.com");
+        git("config", "user.name", "Dev");
+        git("add", ".");
+        git("commit", "-q", "-m", "initial");
+    });
+
+    afterEach(() => {
+        fs.rmSync(repoPath, { recursive: true, force: true });
+    });
+
+    it("should check the routes of a group whose middleware was removed", () => {
+        writeRoutes('    .prefix("/api");');
+        git("add", ".");
+
+        expect(handlers(getGitChanges(repoPath, { staged: true }))).toEqual([
+            "PostsController.show",
+            "PostsController.store",
+        ]);
+    });
+
+    it("should skip routes whose handler and middleware stayed the same", () => {
+        writeRoutes('    .prefix("/api")', "    .use(middleware.auth())", '    .as("api");');
+        git("add", ".");
+
+        expect(handlers(getGitChanges(repoPath, { staged: true }))).toEqual([]);
+    });
+
+    it("should report the routes of a deleted controller", () => {
+        git("rm", "-q", "app/controllers/health.ts");
+
+        const result = runValidation(
+            repoPath,
+            { ...DEFAULT_CONFIG, appErrorsPath: "#lib/errors", cache: false },
+            { changes: getGitChanges(repoPath, { staged: true }) },
+        );
+
+        expect(result.diagnostics.map((d) => [d.rule, d.message])).toEqual([
+            [
+                "controller-missing",
+                'Controller HealthController for GET /health not found: "#controllers/health" does not resolve to a file',
+            ],
+        ]);
+        expect(result.passed).toBe(false);
+    });
+});
+
+describe("runValidation controller files", () => {
+    it("should keep same-named controllers in different files apart", () => {
+        const projectPath = "tests/fixtures/app";
+        const config = { ...DEFAULT_CONFIG, routesFile: "start/admin_routes.ts", appErrorsPath: "#lib/errors" };
+        const result = runValidation(projectPath, config);
+        const handlers = result.results.map((r) => `${path.relative(projectPath, r.filePath)}#${r.method}`);
+
+        expect(handlers.sort()).toEqual([
+            "app/controllers/admin/users_controller.ts#failures",
+            "app/controllers/admin/users_controller.ts#list",
+            "app/controllers/users_controller.ts#index",
+        ]);
+        expect(result.diagnostics.filter((d) => d.rule === "route-handler-missing")).toEqual([]);
+        expect(result.diagnostics.some((d) => d.message.startsWith("UsersController.list"))).toBe(false);
+    });
+});
+
+describe("runValidation pass state", () => {
+    const projectPath = "tests/fixtures/app";
+    const config = { ...DEFAULT_CONFIG, appErrorsPath: "#lib/errors" };
+
+    it("should fail methods with warnings only in strict mode", () => {
+        const rules = { "auth-middleware": "off", "route-params-read": "off" } as const;
+        const strict = runValidation(projectPath, { ...config, rules });
+        const relaxed = runValidation(projectPath, { ...config, rules, strictMode: false });
+
+        expect(strict.errorCount).toBe(0);
+        expect(strict.failedMethods).toBe(1);
+        expect(strict.passed).toBe(false);
+        expect(relaxed.failedMethods).toBe(0);
+        expect(relaxed.passed).toBe(true);
+    });
+
+    it("should not fail methods on rules set to warn in strict mode", () => {
+        const rules = {
+            "auth-middleware": "warn",
+            "route-params-read": "warn",
+            "validate-using": "off",
+            "unrouted-public-method": "warn",
+        } as const;
+        const result = runValidation(projectPath, { ...config, rules });
+
+        expect(result.warningCount).toBeGreaterThan(0);
+        expect(result.failedMethods).toBe(0);
+        expect(result.passed).toBe(true);
+    });
+
+    it("should fail on unrouted public methods in strict mode", () => {
+        const rules = { "auth-middleware": "off", "route-params-read": "off", "validate-using": "off" } as const;
+        const strict = runValidation(projectPath, { ...config, rules });
+        const relaxed = runValidation(projectPath, { ...config, rules, strictMode: false });
+
+        expect(strict.failedMethods).toBe(0);
+        expect(strict.diagnostics.every((d) => d.rule === "unrouted-public-method")).toBe(true);
+        expect(strict.passed).toBe(false);
+        expect(relaxed.passed).toBe(true);
+    });
+});
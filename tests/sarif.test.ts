@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { summarizeResults } from "../src/runner.js";
+import { createSarifLog, formatSarif } from "../src/sarif.js";
+import { DEFAULT_CONFIG } from "../src/types.js";
+
+describe("createSarifLog", () => {
+    const projectPath = "tests/fixtures/app";
+    const config = { ...DEFAULT_CONFIG, rules: { "no-raw-throw": "off" as const } };
+    const result = summarizeResults(
+        [
+            {
+                controller: "UsersController",
+                method: "show",
+                filePath: "tests/fixtures/app/app/controllers/users_controller.ts",
+                line: 13,
+                violations: [{ rule: "validate-using", message: "Missing validation", line: 13, severity: "warning" }],
+                passed: false,
+            },
+        ],
+        [
+            {
+                rule: "route-handler-missing",
+                message: "GET /users/:id/edit points to UsersController.edit, which does not exist",
+                line: 7,
+                column: 1,
+                severity: "error",
+                filePath: "tests/fixtures/app/start/broken_routes.ts",
+            },
+        ],
+        config,
+    );
+    const log = createSarifLog(projectPath, config, result);
+    const [run] = log.runs;
+
+    it("should describe every configured rule", () => {
+        expect(log.version).toBe("2.1.0");
+        expect(run.tool.driver.name).toBe("adonis-validator");
+        expect(run.tool.driver.rules.find((rule) => rule.id === "validate-using")).toEqual({
+            id: "validate-using",
+            shortDescription: { text: expect.any(String) },
+            defaultConfiguration: { level: "error" },
+        });
+        expect(run.tool.driver.rules.find((rule) => rule.id === "no-raw-throw")?.defaultConfiguration).toEqual({
+            level: "none",
+            enabled: false,
+        });
+    });
+
+    it("should locate results relative to the project root", () => {
+        expect(run.originalUriBaseIds["%SRCROOT%"].uri).toMatch(/^file:\/\/.*\/tests\/fixtures\/app\/$/);
+        expect(run.results).toEqual([
+            {
+                ruleId: "validate-using",
+                ruleIndex: run.tool.driver.rules.findIndex((rule) => rule.id === "validate-using"),
+                level: "warning",
+                message: { text: "Missing validation" },
+                locations: [
+                    {
+                        physicalLocation: {
+                            artifactLocation: { uri: "app/controllers/users_controller.ts", uriBaseId: "%SRCROOT%" },
+                            // First non-blank character of the line
+                            region: { startLine: 13, startColumn: 5 },
+                        },
+                        logicalLocations: [{ fullyQualifiedName: "UsersController.show", kind: "function" }],
+                    },
+                ],
+            },
+            expect.objectContaining({
+                ruleId: "route-handler-missing",
+                level: "error",
+                locations: [
+                    {
+                        physicalLocation: {
+                            artifactLocation: { uri: "start/broken_routes.ts", uriBaseId: "%SRCROOT%" },
+                            region: { startLine: 7, startColumn: 1 },
+                        },
+                    },
+                ],
+            }),
+        ]);
+        expect(JSON.parse(formatSarif(log))).toEqual(log);
+    });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "vitest";
-import type { MethodAnalysis } from "../src/types.js";
-import { validateMethod } from "../src/validators/index.js";
+import { loadPlugins } from "../src/config.js";
+import { DEFAULT_CONFIG, type MethodAnalysis, type RouteDefinition } from "../src/types.js";
+import { checkRuleSettings, defineRule, getRules, validateMethod } from "../src/validators/index.js";
 
 describe("validateMethod", () => {
     it("should pass for valid method with request and validateUsing", () => {
@@ -127,6 +128,31 @@ describe("validateMethod", () => {
         expect(result.violations.some((v) => v.rule === "error-response-app-errors")).toBe(true);
     });
 
+    it("should report unknown AppErrors keys", () => {
+        const analysis: MethodAnalysis = {
+            controller: "TestController",
+            method: "destroy",
+            filePath: "test.ts",
+            line: 40,
+            usesRequest: false,
+            usesParams: false,
+            hasValidateUsing: false,
+            returnStatements: [
+                {
+                    line: 45,
+                    type: "errorResponse",
+                    usesAppErrors: false,
+                    appErrorsKey: "GONE",
+                    text: "this.errorResponse(AppErrors.GONE)",
+                },
+            ],
+        };
+
+        const result = validateMethod(analysis);
+        expect(result.violations).toHaveLength(1);
+        expect(result.violations[0].message).toContain("Unknown AppErrors key 'GONE'");
+    });
+
     it("should detect multiple violations in one method", () => {
         const analysis: MethodAnalysis = {
             controller: "TestController",
@@ -174,10 +200,34 @@ describe("validateMethod", () => {
         };
 
         const result = validateMethod(analysis);
-        // No violations for missing return - that's a TypeScript error, not our concern
+        // No implicit exits were computed for this analysis, so nothing to report
         expect(result.passed).toBe(true);
     });
 
+    it("should flag paths ending without a response", () => {
+        const analysis: MethodAnalysis = {
+            controller: "TestController",
+            method: "processAsync",
+            filePath: "test.ts",
+            line: 60,
+            usesRequest: false,
+            usesParams: false,
+            hasValidateUsing: false,
+            returnStatements: [],
+            implicitExits: [
+                { line: 62, kind: "empty-return" },
+                { line: 65, kind: "fallthrough" },
+            ],
+        };
+
+        const result = validateMethod(analysis);
+        expect(result.passed).toBe(false);
+        expect(result.violations.map((v) => [v.rule, v.line])).toEqual([
+            ["explicit-response", 62],
+            ["explicit-response", 65],
+        ]);
+    });
+
     it("should handle mixed return types (successResponse + other)", () => {
         const analysis: MethodAnalysis = {
             controller: "TestController",
@@ -203,9 +253,440 @@ describe("validateMethod", () => {
         };
 
         const result = validateMethod(analysis);
-        // Should have warning for params without validation
-        // The "other" return is detected but not specifically validated here
-        expect(result.violations).toHaveLength(1);
+        // Should have warning for params without validation and an error for the raw return
+        expect(result.violations).toHaveLength(2);
         expect(result.violations[0].severity).toBe("warning");
+        expect(result.violations[1]).toMatchObject({ rule: "no-raw-response", line: 75, severity: "error" });
+    });
+
+    it("should flag response calls unless allowed", () => {
+        const analysis: MethodAnalysis = {
+            controller: "TestController",
+            method: "download",
+            filePath: "test.ts",
+            line: 80,
+            usesRequest: false,
+            usesParams: false,
+            hasValidateUsing: false,
+            returnStatements: [
+                {
+                    line: 82,
+                    type: "other",
+                    callee: "response.download",
+                    text: "response.download(filePath)",
+                },
+            ],
+            responseCalls: [{ line: 84, callee: "response.status.send", text: "response.status(201).send(data)" }],
+        };
+
+        const result = validateMethod(analysis);
+        expect(result.violations).toHaveLength(1);
+        expect(result.violations[0]).toMatchObject({ rule: "no-raw-response", line: 84 });
+    });
+});
+
+describe("rule registry", () => {
+    const analysis: MethodAnalysis = {
+        controller: "TestController",
+        method: "index",
+        filePath: "test.ts",
+        line: 10,
+        usesRequest: false,
+        usesParams: false,
+        hasValidateUsing: false,
+        returnStatements: [],
+    };
+
+    const noIndexRule = defineRule({
+        id: "house/no-index",
+        defaultSeverity: "warning",
+        docs: { description: "Forbid methods named index" },
+        check: (method, context) =>
+            method.method === "index"
+                ? [{ message: `index on ${context.routes.length} routes`, line: method.line }]
+                : [],
+    });
+
+    it("should run plugin rules alongside built-in rules", () => {
+        const config = { ...DEFAULT_CONFIG, plugins: [{ name: "house", rules: [noIndexRule] }] };
+
+        const result = validateMethod(analysis, { projectPath: ".", config, routes: [] });
+        expect(result.violations).toEqual([
+            { rule: "house/no-index", message: "index on 0 routes", line: 10, severity: "warning" },
+        ]);
+    });
+
+    it("should reject duplicate rule ids", () => {
+        const config = {
+            ...DEFAULT_CONFIG,
+            plugins: [{ name: "house", rules: [{ ...noIndexRule, id: "validate-using" }] }],
+        };
+
+        expect(() => getRules(config)).toThrow(/duplicate rule "validate-using"/);
+    });
+
+    it("should require string plugins to be loaded first", () => {
+        const config = { ...DEFAULT_CONFIG, plugins: ["./tests/fixtures/house-rules-plugin.ts"] };
+
+        expect(() => getRules(config)).toThrow(/has not been loaded/);
+    });
+
+    it("should load plugins from module specifiers", async () => {
+        const config = await loadPlugins(".", {
+            ...DEFAULT_CONFIG,
+            plugins: ["./tests/fixtures/house-rules-plugin.ts"],
+        });
+
+        expect(getRules(config).map((r) => r.id)).toContain("house/no-console");
+    });
+});
+
+describe("rule settings", () => {
+    const analysis: MethodAnalysis = {
+        controller: "TestController",
+        method: "store",
+        filePath: "test.ts",
+        line: 20,
+        usesRequest: true,
+        usesParams: false,
+        hasValidateUsing: false,
+        returnStatements: [
+            {
+                line: 25,
+                type: "successResponse",
+                hasGenericType: false,
+                text: "this.successResponse(data)",
+            },
+        ],
+    };
+
+    it("should skip rules turned off", () => {
+        const config = { ...DEFAULT_CONFIG, rules: { "validate-using": "off" as const } };
+
+        const result = validateMethod(analysis, { projectPath: ".", config, routes: [] });
+        expect(result.violations.map((v) => v.rule)).toEqual(["success-response-typed"]);
+    });
+
+    it("should downgrade rules set to warn", () => {
+        const config = {
+            ...DEFAULT_CONFIG,
+            strictMode: false,
+            rules: { "validate-using": "warn" as const, "success-response-typed": "warn" as const },
+        };
+
+        const result = validateMethod(analysis, { projectPath: ".", config, routes: [] });
+        expect(result.violations.every((v) => v.severity === "warning")).toBe(true);
+        expect(result.passed).toBe(true);
+    });
+
+    it("should fail on warnings in strict mode", () => {
+        const config = { ...DEFAULT_CONFIG, rules: { "success-response-typed": "off" as const } };
+        const readsParams = { ...analysis, usesRequest: false, usesParams: true };
+
+        const result = validateMethod(readsParams, { projectPath: ".", config, routes: [] });
+        expect(result.violations.map((v) => v.severity)).toEqual(["warning"]);
+        expect(result.passed).toBe(false);
+        expect(
+            validateMethod(readsParams, { projectPath: ".", config: { ...config, strictMode: false }, routes: [] })
+                .passed,
+        ).toBe(true);
+    });
+
+    it("should not fail on rules set to warn in strict mode", () => {
+        const config = {
+            ...DEFAULT_CONFIG,
+            rules: { "validate-using": "warn" as const, "success-response-typed": "off" as const },
+        };
+
+        const result = validateMethod(analysis, { projectPath: ".", config, routes: [] });
+        expect(result.violations).toHaveLength(1);
+        expect(result.passed).toBe(true);
+    });
+
+    it("should reject unknown rules and settings", () => {
+        const rules = getRules(DEFAULT_CONFIG);
+
+        expect(() => checkRuleSettings({ ...DEFAULT_CONFIG, rules: { "no-such-rule": "error" } }, rules)).toThrow(
+            /Unknown rule "no-such-rule"/,
+        );
+        expect(() =>
+            checkRuleSettings({ ...DEFAULT_CONFIG, rules: { "validate-using": "warning" as "warn" } }, rules),
+        ).toThrow(/Invalid setting "warning"/);
+    });
+});
+
+describe("suppressions", () => {
+    const analysis: MethodAnalysis = {
+        controller: "TestController",
+        method: "store",
+        filePath: "test.ts",
+        line: 20,
+        usesRequest: true,
+        usesParams: false,
+        hasValidateUsing: false,
+        returnStatements: [
+            {
+                line: 25,
+                type: "successResponse",
+                hasGenericType: false,
+                text: "this.successResponse(data)",
+            },
+        ],
+    };
+
+    it("should silence the line after a disable-next-line comment", () => {
+        const result = validateMethod({
+            ...analysis,
+            suppressions: [{ scope: "line", line: 24, targetLine: 25, rules: ["success-response-typed"] }],
+        });
+
+        expect(result.violations.map((v) => v.rule)).toEqual(["validate-using"]);
+    });
+
+    it("should silence every listed rule for a method-level tag", () => {
+        const result = validateMethod({
+            ...analysis,
+            suppressions: [{ scope: "method", line: 18, rules: ["validate-using", "success-response-typed"] }],
+        });
+
+        expect(result.passed).toBe(true);
+        expect(result.violations).toHaveLength(0);
+    });
+
+    it("should report unused suppressions", () => {
+        const result = validateMethod({
+            ...analysis,
+            suppressions: [
+                { scope: "method", line: 18, rules: ["validate-using", "success-response-typed"] },
+                { scope: "line", line: 21, targetLine: 22, rules: [] },
+            ],
+        });
+
+        expect(result.violations).toHaveLength(1);
+        expect(result.violations[0]).toMatchObject({ rule: "unused-suppression", line: 21, severity: "warning" });
+    });
+});
+
+describe("auth-middleware rule", () => {
+    const analysis: MethodAnalysis = {
+        controller: "UsersController",
+        method: "store",
+        filePath: "app/controllers/users_controller.ts",
+        line: 20,
+        usesRequest: false,
+        usesParams: false,
+        hasValidateUsing: false,
+        returnStatements: [],
+    };
+
+    const route: RouteDefinition = {
+        method: "post",
+        path: "/users",
+        controller: "UsersController",
+        handler: "store",
+        line: 12,
+        hasPathParams: false,
+        pathParams: [],
+        middleware: ["throttle"],
+    };
+
+    const validate = (routes: RouteDefinition[], config = DEFAULT_CONFIG) =>
+        validateMethod(analysis, { projectPath: "/app", config, routes }).violations;
+
+    it("should flag mutating routes without auth middleware", () => {
+        expect(validate([route])).toEqual([
+            expect.objectContaining({
+                rule: "auth-middleware",
+                line: 12,
+                filePath: "/app/start/routes.ts",
+                severity: "error",
+            }),
+        ]);
+    });
+
+    it("should accept routes using a configured auth middleware", () => {
+        expect(validate([{ ...route, middleware: ["auth"] }])).toHaveLength(0);
+        expect(
+            validate([{ ...route, middleware: ["jwt"] }], { ...DEFAULT_CONFIG, authMiddleware: ["jwt"] }),
+        ).toHaveLength(0);
+    });
+
+    it("should ignore read-only and public routes", () => {
+        expect(validate([{ ...route, method: "get" }])).toHaveLength(0);
+        expect(validate([route], { ...DEFAULT_CONFIG, publicRoutes: ["UsersController.store"] })).toHaveLength(0);
+        expect(validate([route], { ...DEFAULT_CONFIG, publicRoutes: ["POST /users"] })).toHaveLength(0);
+    });
+});
+
+describe("no-raw-throw rule", () => {
+    const analysis: MethodAnalysis = {
+        controller: "TestController",
+        method: "validateData",
+        filePath: "test.ts",
+        line: 90,
+        usesRequest: false,
+        usesParams: false,
+        hasValidateUsing: false,
+        returnStatements: [],
+        throwStatements: [
+            { line: 92, text: 'new Error("Email required")', exceptionClass: "Error", isRethrow: false },
+            {
+                line: 94,
+                text: "AppException.fromError(AppErrors.NOT_FOUND)",
+                exceptionClass: "AppException",
+                isRethrow: false,
+            },
+            { line: 96, text: "error", isRethrow: true },
+        ],
+    };
+
+    it("should flag throws of classes that are not allowed", () => {
+        const result = validateMethod(analysis);
+        expect(result.violations.map((v) => v.line)).toEqual([92, 94]);
+    });
+
+    it("should accept configured exception classes", () => {
+        const config = { ...DEFAULT_CONFIG, allowedExceptions: ["AppException"] };
+
+        const result = validateMethod(analysis, { projectPath: ".", config, routes: [] });
+        expect(result.violations).toHaveLength(1);
+        expect(result.violations[0]).toMatchObject({ rule: "no-raw-throw", line: 92 });
+    });
+});
+
+describe("no-unvalidated-request-data rule", () => {
+    const analysis: MethodAnalysis = {
+        controller: "TestController",
+        method: "store",
+        filePath: "test.ts",
+        line: 10,
+        usesRequest: true,
+        usesParams: false,
+        hasValidateUsing: true,
+        validateUsingCalls: [
+            { line: 11, awaited: true, validator: "createValidator", text: "request.validateUsing(createValidator)" },
+        ],
+        requestDataAccesses: [{ line: 12, accessor: "input", text: 'request.input("role")' }],
+        returnStatements: [{ line: 13, type: "successResponse", hasGenericType: true, text: "" }],
+    };
+
+    it("should flag raw request data reads even when validateUsing is called", () => {
+        const result = validateMethod(analysis);
+
+        expect(result.passed).toBe(false);
+        expect(result.violations).toHaveLength(1);
+        expect(result.violations[0]).toMatchObject({ rule: "no-unvalidated-request-data", line: 12 });
+    });
+
+    it("should flag validateUsing results used before being awaited", () => {
+        const result = validateMethod({
+            ...analysis,
+            validateUsingCalls: [{ line: 11, awaited: false, text: "request.validateUsing(createValidator)" }],
+            requestDataAccesses: [],
+        });
+
+        expect(result.violations.map((v) => [v.rule, v.line])).toEqual([["no-unvalidated-request-data", 11]]);
+    });
+});
+
+describe("validator-route-params rule", () => {
+    const analysis: MethodAnalysis = {
+        controller: "PostsController",
+        method: "show",
+        filePath: "app/controllers/posts_controller.ts",
+        line: 10,
+        usesRequest: true,
+        usesParams: true,
+        hasValidateUsing: true,
+        validateUsingCalls: [
+            {
+                line: 11,
+                awaited: true,
+                validator: "showPostValidator",
+                params: ["id", "slug"],
+                text: "request.validateUsing(showPostValidator)",
+            },
+        ],
+        returnStatements: [{ line: 12, type: "successResponse", hasGenericType: true, text: "" }],
+    };
+    const route: RouteDefinition = {
+        method: "get",
+        path: "/users/:user_id/posts/:id",
+        controller: "PostsController",
+        handler: "show",
+        line: 8,
+        hasPathParams: true,
+        pathParams: ["user_id", "id"],
+        middleware: [],
+    };
+    const violations = (overrides: Partial<MethodAnalysis> = {}) =>
+        validateMethod(
+            { ...analysis, ...overrides },
+            { projectPath: ".", config: DEFAULT_CONFIG, routes: [route] },
+        ).violations.filter((v) => v.rule === "validator-route-params");
+
+    it("should report route params missing from the schema and schema params missing from the route", () => {
+        const messages = violations().map((v) => v.message);
+
+        expect(messages).toHaveLength(2);
+        expect(messages[0]).toContain("Route param 'user_id' of GET /users/:user_id/posts/:id is not validated");
+        expect(messages[1]).toContain("Param 'slug' validated by showPostValidator does not exist");
+    });
+
+    it("should not require route params in the schema when the method does not read params", () => {
+        const messages = violations({ usesParams: false }).map((v) => v.message);
+        expect(messages).toEqual([expect.stringContaining("Param 'slug'")]);
+    });
+
+    it("should skip validators that cannot be resolved", () => {
+        const [call] = analysis.validateUsingCalls ?? [];
+        expect(violations({ validateUsingCalls: [{ ...call, params: undefined }] })).toHaveLength(0);
+    });
+});
+
+describe("route-params-read rule", () => {
+    const analysis: MethodAnalysis = {
+        controller: "UsersController",
+        method: "findBySlug",
+        filePath: "app/controllers/users_controller.ts",
+        line: 55,
+        usesRequest: false,
+        usesParams: true,
+        hasValidateUsing: false,
+        paramAccesses: [{ line: 57, name: "slug", text: "params.slug" }],
+        returnStatements: [{ line: 58, type: "successResponse", hasGenericType: true, text: "" }],
+    };
+    const route: RouteDefinition = {
+        method: "get",
+        path: "/users/:id",
+        controller: "UsersController",
+        handler: "findBySlug",
+        line: 12,
+        hasPathParams: true,
+        pathParams: ["id"],
+        middleware: [],
+    };
+    const violations = (overrides: Partial<MethodAnalysis> = {}) =>
+        validateMethod(
+            { ...analysis, validateUsingCalls: [], ...overrides },
+            { projectPath: ".", config: DEFAULT_CONFIG, routes: [route] },
+        ).violations.filter((v) => v.rule === "route-params-read");
+
+    it("should report params the route does not declare and route params never read", () => {
+        expect(violations().map((v) => [v.line, v.severity])).toEqual([
+            [57, "error"],
+            [55, "warning"],
+        ]);
+        expect(violations()[0].message).toContain("Param 'slug' is not declared by GET /users/:id");
+    });
+
+    it("should count params validated through validateUsing as read", () => {
+        const validateUsingCalls = [{ line: 56, awaited: true, params: ["id"], text: "" }];
+        expect(violations({ paramAccesses: [], validateUsingCalls })).toHaveLength(0);
+    });
+
+    it("should not report unused params when a read cannot be resolved", () => {
+        const paramAccesses = [{ line: 57, text: "params[key]" }];
+        expect(violations({ paramAccesses })).toHaveLength(0);
     });
 });
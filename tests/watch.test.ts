@@ -0,0 +1,150 @@
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import type { RunResult } from "../src/runner.js";
+import { DEFAULT_CONFIG, type Violation } from "../src/types.js";
+import { type ValidationWatcher, type WatchRun, diffResults, watchValidation } from "../src/watch.js";
+
+function createResult(violations: Violation[], diagnostics: Violation[] = []): RunResult {
+    const result = {
+        controller: "UsersController",
+        method: "store",
+        filePath: "app/controllers/users_controller.ts",
+        line: 10,
+        violations,
+        passed: violations.length === 0,
+    };
+
+    return {
+        totalMethods: 1,
+        passedMethods: result.passed ? 1 : 0,
+        failedMethods: result.passed ? 0 : 1,
+        errorCount: violations.length + diagnostics.length,
+        warningCount: 0,
+        results: [result],
+        violations: result.passed ? [] : [result],
+        diagnostics,
+        passed: violations.length + diagnostics.length === 0,
+    };
+}
+
+describe("diffResults", () => {
+    const missingValidation: Violation = {
+        rule: "validate-using",
+        message: "Method uses request but doesn't call request.validateUsing()",
+        line: 10,
+        severity: "error",
+    };
+    const rawThrow: Violation = { rule: "no-raw-throw", message: "Raw throw", line: 12, severity: "error" };
+
+    it("should list added and fixed violations with their handler and file", () => {
+        const diff = diffResults(createResult([missingValidation]), createResult([rawThrow]));
+
+        expect(diff.added).toEqual([
+            { ...rawThrow, handler: "UsersController.store", filePath: "app/controllers/users_controller.ts" },
+        ]);
+        expect(diff.fixed.map((v) => v.rule)).toEqual(["validate-using"]);
+    });
+
+    it("should ignore violations that only moved to another line", () => {
+        const diff = diffResults(createResult([missingValidation]), createResult([{ ...missingValidation, line: 14 }]));
+
+        expect(diff).toEqual({ added: [], fixed: [] });
+    });
+
+    it("should count repeated violations and include diagnostics", () => {
+        const missingHandler: Violation = {
+            rule: "route-handler-missing",
+            message: "GET /users/:id points to UsersController.show, which does not exist",
+            line: 4,
+            severity: "error",
+            filePath: "start/routes.ts",
+        };
+        const diff = diffResults(createResult([rawThrow]), createResult([rawThrow, rawThrow], [missingHandler]));
+
+        expect(diff.added.map((v) => v.rule)).toEqual(["no-raw-throw", "route-handler-missing"]);
+        expect(diff.fixed).toEqual([]);
+    });
+});
+
+describe("watchValidation", () => {
+    let projectPath: string;
+    let watcher: ValidationWatcher | undefined;
+    const runs: WatchRun[] = [];
+    let waiting: (() => void) | undefined;
+
+    /** Resolve with the run after the `count` runs seen so far */
+    const nextRun = (count: number) =>
+        new Promise<WatchRun>((resolve, reject) => {
+            const timeout = setTimeout(() => reject(new Error(`No run after ${count} runs`)), 10_000);
+            const check = () => {
+                if (runs.length <= count) return;
+                clearTimeout(timeout);
+                waiting = undefined;
+                resolve(runs[count]);
+            };
+            waiting = check;
+            check();
+        });
+    const edit = (file: string, update: (content: string) => string) => {
+        const filePath = path.join(projectPath, file);
+        fs.writeFileSync(filePath, update(fs.readFileSync(filePath, "utf-8")));
+    };
+    const memoEntry = (run: WatchRun, file: string) =>
+        run.session.memo.get(`controller:${path.join(projectPath, file)}`);
+
+    beforeEach(() => {
+        projectPath = fs.mkdtempSync(path.join(os.tmpdir(), "adonis-validator-watch-"));
+        fs.cpSync("tests/fixtures/app", projectPath, { recursive: true });
+        runs.length = 0;
+    });
+
+    afterEach(() => {
+        watcher?.close();
+        fs.rmSync(projectPath, { recursive: true, force: true });
+    });
+
+    it("should run again on debounced changes to controllers, their imports and the routes file", async () => {
+        const config = { ...DEFAULT_CONFIG, appErrorsPath: "#lib/errors", cache: false, workers: 1 };
+        watcher = watchValidation(projectPath, config, {
+            onRun: (run) => {
+                runs.push(run);
+                waiting?.();
+            },
+        });
+
+        const first = await nextRun(0);
+        expect(first.changedFiles).toEqual([]);
+        expect(first.diff).toBeUndefined();
+        const users = memoEntry(first, "app/controllers/users_controller.ts");
+        const posts = memoEntry(first, "app/controllers/posts_controller.ts");
+        const health = memoEntry(first, "app/controllers/health.ts");
+
+        // Saved together, so they trigger a single run
+        edit("app/validators/post.ts", (content) => `${content}\n// edited\n`);
+        edit("app/controllers/users_controller.ts", (content) => `${content}\n// edited\n`);
+
+        const second = await nextRun(1);
+        expect(second.changedFiles.sort()).toEqual([
+            path.join(projectPath, "app/controllers/users_controller.ts"),
+            path.join(projectPath, "app/validators/post.ts"),
+        ]);
+        expect(second.diff).toEqual({ added: [], fixed: [] });
+        expect(memoEntry(second, "app/controllers/users_controller.ts")).not.toBe(users);
+        expect(memoEntry(second, "app/controllers/posts_controller.ts")).not.toBe(posts);
+        expect(memoEntry(second, "app/controllers/health.ts")).toBe(health);
+
+        edit("start/routes.ts", (content) => `${content}router.get("/users/:id/posts", [UsersController, "posts"]);\n`);
+
+        const third = await nextRun(2);
+        expect(third.changedFiles).toEqual([path.join(projectPath, "start/routes.ts")]);
+        expect(third.diff?.added.map((v) => v.rule)).toEqual(["route-handler-missing"]);
+        expect(third.diff?.fixed).toEqual([]);
+
+        watcher.close();
+        edit("app/controllers/users_controller.ts", (content) => `${content}\n// edited again\n`);
+        await new Promise((resolve) => setTimeout(resolve, 500));
+        expect(runs).toHaveLength(3);
+    });
+});